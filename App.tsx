@@ -1,144 +1,546 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { VOICES } from './constants';
-import { TTSStatus, GeneratedAudio } from './types';
-import { generateSpeech } from './services/geminiService';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { DEFAULT_CHUNK_MAX_CHARS, CHUNK_SIZE_OPTIONS } from './constants';
+import { TTSStatus, GeneratedAudio, ChunkJob, TTSProviderId, InputMode, GenerationMeta, HistoryEntry, ExportSettings, DeliverySettings, Lexicon, Project, ProjectWorkspace, SegmentOverride } from './types';
+import { PROVIDERS, getActiveProviderId, getDailyRemaining, getRateScope, setActiveProvider } from './services/ttsService';
+import { setLimits } from './services/rateLimiter';
+import { useRateLimiter } from './hooks/useRateLimiter';
+import { TTSErrorCode, toTTSError } from './services/ttsErrors';
+import { countRequestsNeeded, createDialogueJobs, createTextJobs, runChunkPipeline, stitchChunks } from './services/chunkingService';
+import { assignSpeakerVoices, tryParseScript } from './services/scriptParser';
+import { assessTarget, estimateDuration, fitToDuration, recordVoicePace } from './services/durationService';
+import { createGenerationId, requestPersistentStorage, saveToHistory } from './services/historyStore';
+import { loadExportSettings, saveExportSettings } from './services/exportService';
+import { DEFAULT_DELIVERY, getPaceRate, parseDeliveryMarkup } from './services/deliveryService';
+import { getActiveEntries, listLexicons, loadEnabledLexiconIds, saveEnabledLexiconIds } from './services/lexiconService';
+import { TimingPosition } from './services/timingService';
+import { getAvailableVoiceIds, listVoices } from './services/voiceCatalog';
+import { createSegmentRoute, findSegments, planSegments, pruneOverrides, PlannedSegment } from './services/languageService';
+import { createProject, deleteProject, getProject, isSameWorkspace, listProjects, openStartupProject, saveActiveProjectId, saveProject } from './services/projectService';
+import { useProjectAutosave } from './hooks/useProjectAutosave';
+import { getActiveApiKey, listApiKeys, subscribeToKeys } from './services/apiKeyStore';
 import VoiceSelector from './components/VoiceSelector';
-import OutputPlayer from './components/OutputPlayer';
-
-// Gemini Free Tier Limits
-const DAILY_REQUEST_LIMIT = 1500; 
-const MINUTE_REQUEST_LIMIT = 15; // RPM Limit
+import SpeakerVoiceMap from './components/SpeakerVoiceMap';
+import DeliveryPanel from './components/DeliveryPanel';
+import LexiconPanel from './components/LexiconPanel';
+import LanguagePanel from './components/LanguagePanel';
+import LexiconPreview from './components/LexiconPreview';
+import ReadAlongHighlight from './components/ReadAlongHighlight';
+import OutputPlayer, { formatDuration } from './components/OutputPlayer';
+import ChunkProgress from './components/ChunkProgress';
+import BatchPanel from './components/BatchPanel';
+import HistoryLibrary from './components/HistoryLibrary';
+import CacheStatus from './components/CacheStatus';
+import ExportFormatPicker from './components/ExportFormatPicker';
+import ProjectBar from './components/ProjectBar';
+import UsageDashboard from './components/UsageDashboard';
 
 const App: React.FC = () => {
+  // Prebuilt voices plus aliases; reloaded when an alias is added or changed
+  const [voices, setVoices] = useState(listVoices);
   // Default to 'Kore' or the first available voice if Kore isn't found
-  const defaultVoice = VOICES.find(v => v.id === "Kore")?.id || VOICES[0].id;
+  const defaultVoice = voices.find(v => v.id === "Kore")?.id || voices[0].id;
   
   const [selectedVoice, setSelectedVoice] = useState<string>(defaultVoice);
   const [text, setText] = useState<string>('');
   const [targetDuration, setTargetDuration] = useState<string>(''); 
+  const [fitToTarget, setFitToTarget] = useState<boolean>(true);
   const [status, setStatus] = useState<TTSStatus>(TTSStatus.IDLE);
   const [generatedAudio, setGeneratedAudio] = useState<GeneratedAudio | null>(null);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [errorCode, setErrorCode] = useState<TTSErrorCode | null>(null);
+  const [providerId, setProviderId] = useState<TTSProviderId>(getActiveProviderId);
+  const provider = PROVIDERS[providerId];
+  const availableVoiceIds = useMemo(() => getAvailableVoiceIds(voices, provider.supportedVoiceIds), [voices, provider]);
+
+  // --- Long-form State ---
+  const [chunkMaxChars, setChunkMaxChars] = useState<number>(DEFAULT_CHUNK_MAX_CHARS);
+  const [chunkJobs, setChunkJobs] = useState<ChunkJob[]>([]);
+
+  // --- Dialogue State ---
+  const [mode, setMode] = useState<InputMode>('single');
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>({});
+  const { script, issues: scriptIssues } = useMemo(
+    () => (mode === 'dialogue' && text.trim() ? tryParseScript(text) : { script: null, issues: [] }),
+    [mode, text]
+  );
+  const effectiveSpeakerVoices = useMemo(
+    () => assignSpeakerVoices(script?.speakers || [], speakerVoices, availableVoiceIds),
+    [script, speakerVoices, availableVoiceIds]
+  );
+
+  // --- Delivery State ---
+  const [delivery, setDelivery] = useState<DeliverySettings>(DEFAULT_DELIVERY);
+  const markup = useMemo(
+    () => (mode === 'dialogue'
+      ? (script?.lines || []).map(line => parseDeliveryMarkup(line.text, line.lineNumber))
+      : [parseDeliveryMarkup(text)]),
+    [mode, script, text]
+  );
+  const inputIssues = [...scriptIssues, ...markup.flatMap(result => result.issues)];
+  // Markup-like text that will be read literally; shown, but generation goes ahead
+  const inputWarnings = markup.flatMap(result => result.warnings);
+
+  // --- Pronunciation State ---
+  const [lexicons, setLexicons] = useState<Lexicon[]>(listLexicons);
+  const [enabledLexiconIds, setEnabledLexiconIds] = useState<string[]>(loadEnabledLexiconIds);
+  const lexiconEntries = useMemo(() => getActiveEntries(lexicons, enabledLexiconIds), [lexicons, enabledLexiconIds]);
+
+  // --- Language State ---
+  const [languageVoices, setLanguageVoices] = useState<Record<string, string>>({});
+  const [segmentOverrides, setSegmentOverrides] = useState<Record<string, SegmentOverride>>({});
+  const segments = useMemo(
+    () => (mode === 'dialogue' ? findSegments(text, script?.lines || []) : findSegments(text)),
+    [mode, text, script]
+  );
+  const segmentPlan = useMemo(
+    () => planSegments(
+      segments,
+      segment => (segment.speaker && effectiveSpeakerVoices[segment.speaker]) || selectedVoice,
+      segmentOverrides,
+      { voices, availableVoiceIds, languageVoices }
+    ),
+    [segments, effectiveSpeakerVoices, selectedVoice, segmentOverrides, voices, availableVoiceIds, languageVoices]
+  );
+
+  const buildJobs = (): ChunkJob[] => (mode === 'dialogue'
+    ? (script ? createDialogueJobs(script.lines, effectiveSpeakerVoices, chunkMaxChars, delivery, createSegmentRoute(segmentPlan)) : [])
+    : createTextJobs(text, chunkMaxChars, delivery, createSegmentRoute(segmentPlan)));
+  const plannedJobs = useMemo(buildJobs, [mode, script, effectiveSpeakerVoices, text, chunkMaxChars, delivery, segmentPlan]);
+  const chunkCount = plannedJobs.length;
+
+  // --- Duration Estimate ---
+  const targetSeconds = parseFloat(targetDuration) > 0 ? parseFloat(targetDuration) * 60 : undefined;
+  // Re-estimated after each generation, since that refines the measured voice pace
+  const estimatedSeconds = useMemo(
+    () => (plannedJobs.length ? estimateDuration(plannedJobs, selectedVoice) : 0),
+    [plannedJobs, selectedVoice, generatedAudio]
+  );
+  const targetAssessment = targetSeconds && estimatedSeconds ? assessTarget(estimatedSeconds, targetSeconds) : null;
   
-  // --- Usage State ---
-  const [dailyRequests, setDailyRequests] = useState<number>(0);
-  const [minuteRequests, setMinuteRequests] = useState<number>(0);
-  const [secondsUntilReset, setSecondsUntilReset] = useState<number>(60);
+  // --- Export State ---
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(loadExportSettings);
+
+  // --- Read-along State ---
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [playbackPosition, setPlaybackPosition] = useState<TimingPosition | null>(null);
+  // Only while the editor still holds the text that was spoken, or the offsets point at the wrong words
+  const readAlong = useMemo(() => {
+    if (!playbackPosition || generatedAudio?.meta?.text !== text) return null;
+    const located = playbackPosition.sentence.words.filter(w => w.charStart !== undefined);
+    if (located.length === 0) return null;
+    const word = playbackPosition.word;
+    return {
+      sentence: [located[0].charStart!, located[located.length - 1].charEnd!] as [number, number],
+      word: word?.charStart !== undefined ? [word.charStart, word.charEnd!] as [number, number] : null,
+    };
+  }, [playbackPosition, generatedAudio, text]);
+
+  // --- History State ---
+  const [historyVersion, setHistoryVersion] = useState<number>(0);
+  const [regeneratePending, setRegeneratePending] = useState<boolean>(false);
 
-  // --- Initialization & Timers ---
   useEffect(() => {
-    // 1. Load Daily Usage
-    const today = new Date().toISOString().split('T')[0];
-    const storageKey = `gemini_tts_usage_${today}`;
-    const savedUsage = localStorage.getItem(storageKey);
-    if (savedUsage) {
-        setDailyRequests(parseInt(savedUsage, 10));
-    } else {
-        setDailyRequests(0);
+    requestPersistentStorage().catch(() => { /* Not supported: the library still works, just evictable */ });
+  }, []);
+
+  // --- Project State ---
+  const [project, setProject] = useState<Project | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [recovered, setRecovered] = useState<boolean>(false);
+  const workspace = useMemo((): ProjectWorkspace => ({
+    text,
+    mode,
+    voiceId: selectedVoice,
+    speakerVoices,
+    delivery,
+    targetDuration,
+    fitToTarget,
+    chunkMaxChars,
+    lexiconIds: enabledLexiconIds,
+    languageVoices,
+    segmentOverrides,
+  }), [text, mode, selectedVoice, speakerVoices, delivery, targetDuration, fitToTarget, chunkMaxChars, enabledLexiconIds, languageVoices, segmentOverrides]);
+
+  const handleProjectSaved = (saved: Project) => {
+    setProject(saved);
+    setProjects(prev => prev.map(p => (p.id === saved.id ? saved : p)));
+  };
+  const autosaveStatus = useProjectAutosave(project, workspace, handleProjectSaved);
+
+  // Loads the project into the editor. Dictionaries and aliases are re-read, since an imported project may have added some
+  const applyWorkspace = (ws: ProjectWorkspace) => {
+    const currentVoices = listVoices();
+    const currentLexicons = listLexicons();
+    setVoices(currentVoices);
+    setLexicons(currentLexicons);
+    setText(ws.text);
+    setMode(ws.mode);
+    setSelectedVoice(currentVoices.some(v => v.id === ws.voiceId) ? ws.voiceId : defaultVoice);
+    setSpeakerVoices(ws.speakerVoices);
+    setDelivery(ws.delivery);
+    setTargetDuration(ws.targetDuration);
+    setFitToTarget(ws.fitToTarget);
+    setChunkMaxChars(ws.chunkMaxChars);
+    handleEnabledLexiconsChange(ws.lexiconIds.filter(id => currentLexicons.some(l => l.id === id)));
+    // Projects saved before languages existed have neither
+    setLanguageVoices(ws.languageVoices || {});
+    setSegmentOverrides(ws.segmentOverrides || {});
+    setChunkJobs([]);
+    setGeneratedAudio(null);
+    setErrorMsg(null);
+  };
+
+  const openProject = async (next: Project) => {
+    applyWorkspace(next.workspace);
+    setProject(next);
+    setRecovered(false);
+    saveActiveProjectId(next.id);
+    setProjects(await listProjects());
+  };
+
+  // Saves pending edits right away before another project replaces the editor contents
+  const flushProject = async () => {
+    if (project && !isSameWorkspace(project.workspace, workspace)) {
+      await saveProject({ ...project, workspace, updatedAt: Date.now() });
     }
+  };
 
-    // 2. Start the Minute Timer (Live Update)
-    const timer = setInterval(() => {
-        setSecondsUntilReset((prev) => {
-            if (prev <= 1) {
-                // Minute is over, reset the minute counter
-                setMinuteRequests(0);
-                return 60;
-            }
-            return prev - 1;
-        });
-    }, 1000);
-
-    return () => clearInterval(timer);
+  useEffect(() => {
+    openStartupProject(workspace)
+      .then(async ({ project: startup, recovered: wasRecovered }) => {
+        applyWorkspace(startup.workspace);
+        setProject(startup);
+        setRecovered(wasRecovered);
+        setProjects(await listProjects());
+      })
+      .catch(err => console.error('Projects are unavailable (IndexedDB is blocked or full)', err));
   }, []);
 
-  const incrementUsage = () => {
-    // Update Daily
-    const today = new Date().toISOString().split('T')[0];
-    const storageKey = `gemini_tts_usage_${today}`;
-    const newDailyCount = dailyRequests + 1;
-    setDailyRequests(newDailyCount);
-    localStorage.setItem(storageKey, newDailyCount.toString());
+  const handleProjectSwitch = async (id: string) => {
+    await flushProject();
+    const next = await getProject(id);
+    if (next) await openProject(next);
+  };
 
-    // Update Minute
-    setMinuteRequests(prev => prev + 1);
+  const handleProjectCreate = async () => {
+    const name = window.prompt('Name the new project:', 'Untitled project')?.trim();
+    if (!name) return;
+    await flushProject();
+    // Keeps the voice and delivery settings, which usually carry over
+    await openProject(await createProject(name, { ...workspace, text: '', segmentOverrides: {} }));
   };
 
+  const handleProjectRename = async (name: string) => {
+    if (!project) return;
+    handleProjectSaved(await saveProject({ ...project, name, workspace, updatedAt: Date.now() }));
+  };
+
+  const handleProjectDelete = async () => {
+    if (!project) return;
+    await deleteProject(project.id);
+    setHistoryVersion(v => v + 1);
+    const [next] = await listProjects();
+    await openProject(next || await createProject('Untitled project', { ...workspace, text: '', segmentOverrides: {} }));
+  };
+
+  const handleDocumentImported = async (name: string, importedText: string) => {
+    if (!text.trim()) {
+      setText(importedText);
+      setChunkJobs([]);
+      if (mode === 'batch') setMode('single');
+      return;
+    }
+    await flushProject();
+    await openProject(await createProject(name, { ...workspace, text: importedText, mode: mode === 'batch' ? 'single' : mode, segmentOverrides: {} }));
+  };
+
+  const handleProjectImported = async (imported: Project) => {
+    await flushProject();
+    await openProject(imported);
+    setHistoryVersion(v => v + 1);
+  };
+
+  // --- Usage State (shared with other tabs through the rate limiter) ---
+  // Bumped when keys change, including a failover to the next key mid-generation
+  const [keyVersion, setKeyVersion] = useState<number>(0);
+  useEffect(() => subscribeToKeys(() => setKeyVersion(v => v + 1)), []);
+  const apiKeys = useMemo(listApiKeys, [keyVersion]);
+  const activeKey = useMemo(getActiveApiKey, [keyVersion]);
+  const rateScope = useMemo(() => getRateScope(provider, activeKey), [provider, activeKey]);
+  const usage = useRateLimiter(rateScope);
+  const dailyRemaining = Math.max(0, usage.limits.rpd - usage.dayUsed);
+
   const handleGenerate = async () => {
+    if (status === TTSStatus.GENERATING) return;
     if (!text.trim()) {
         setErrorMsg("Please enter some text to generate speech.");
         return;
     }
 
+    if (inputIssues.length > 0) {
+        setErrorMsg(`Script error on line ${inputIssues[0].lineNumber}: ${inputIssues[0].message}`);
+        return;
+    }
+
     // --- PREVENTIVE CHECKS (Client Side Rate Limiting) ---
-    if (dailyRequests >= DAILY_REQUEST_LIMIT) {
-        setErrorMsg("Daily limit reached (1500). Please try tomorrow or use a paid key.");
+    // The per-minute limit needs no check: requests queue until a slot frees up.
+    // Failover can spend every key's quota, so count what all of them have left.
+    // Chunks the cache already holds are free, so only the rest count against it.
+    // The lookup takes a moment: mark the run as started so Generate can't be pressed twice.
+    const previousStatus = status;
+    setStatus(TTSStatus.GENERATING);
+    const jobs = buildJobs();
+    const needed = await countRequestsNeeded(jobs, { voiceId: selectedVoice, lexicon: lexiconEntries });
+    const remaining = getDailyRemaining(provider);
+    if (needed > 0 && remaining <= 0) {
+        setStatus(previousStatus);
+        setErrorMsg(apiKeys.length > 1
+          ? `Every API key has reached its daily limit. Limits reset at ${new Date(usage.dayResetsAt).toLocaleTimeString()}.`
+          : `Daily limit reached (${usage.limits.rpd}). It resets at ${new Date(usage.dayResetsAt).toLocaleTimeString()}, or use a paid key.`);
         return;
     }
 
-    if (minuteRequests >= MINUTE_REQUEST_LIMIT) {
-        setErrorMsg(`Speed limit reached! Please wait ${secondsUntilReset} seconds for the minute quota to reset.`);
+    if (needed > remaining) {
+        setStatus(previousStatus);
+        setErrorMsg(`This text needs ${needed} new requests but only ${remaining} remain today. Shorten the text or use a larger chunk size.`);
         return;
     }
     
     setErrorMsg(null);
-    setStatus(TTSStatus.GENERATING);
     setGeneratedAudio(null);
+    await runChunks(jobs);
+  };
+
+  // Runs (or resumes) the chunk pipeline. Chunks that already succeeded are kept as-is,
+  // so a failure halfway through an article only costs the remaining chunks.
+  const runChunks = async (jobs: ChunkJob[]) => {
+    setStatus(TTSStatus.GENERATING);
+    setErrorMsg(null);
+    setErrorCode(null);
 
     try {
-      const result = await generateSpeech(text, selectedVoice);
-      setGeneratedAudio(result);
+      const finalJobs = await runChunkPipeline(jobs, {
+        voiceId: selectedVoice,
+        lexicon: lexiconEntries,
+        onUpdate: setChunkJobs,
+      });
+
+      const failed = finalJobs.find(job => job.status === TTSStatus.ERROR);
+      if (failed) {
+        setStatus(TTSStatus.ERROR);
+        setErrorCode(failed.errorCode || 'UNKNOWN');
+        const prefix = finalJobs.length > 1 ? `Chunk ${failed.index + 1} of ${finalJobs.length}: ` : '';
+        // Handle 429 Quota Exceeded specifically
+        if (failed.errorCode === 'QUOTA') {
+          setErrorMsg(`${prefix}${apiKeys.length > 1 ? 'Every API key is out of quota (429).' : 'Quota exceeded (429). The system is busy.'} ${finalJobs.length > 1 ? 'The chunks already generated are kept; retry once the quota frees up.' : 'Please wait a moment.'}`);
+        } else {
+          setErrorMsg(`${prefix}${failed.error || "Failed to generate speech. Please try again."}`);
+        }
+        return;
+      }
+
+      // Each chunk synthesized in this run is a fresh sample of its voice's natural pace, once the requested
+      // pace is factored out. Cache hits and chunks kept from an earlier attempt were sampled when they were made.
+      const keptIndexes = new Set(jobs.filter(job => job.status === TTSStatus.SUCCESS).map(job => job.index));
+      finalJobs
+        .filter(job => !job.audio!.fromCache && !keptIndexes.has(job.index))
+        .forEach(job => recordVoicePace(job.voiceId ?? selectedVoice, job.text, job.audio!.durationSeconds, getPaceRate(job.style?.pace)));
+
+      let audio = stitchChunks(finalJobs, text);
+      if (fitToTarget && targetSeconds) {
+        audio = fitToDuration(audio, targetSeconds);
+      }
+      audio.meta = {
+        id: createGenerationId(),
+        text,
+        voiceId: selectedVoice,
+        providerId,
+        mode,
+        settings: {
+          chunkMaxChars,
+          targetSeconds,
+          fitToTarget,
+          speakerVoices: mode === 'dialogue' ? effectiveSpeakerVoices : undefined,
+          delivery,
+          lexiconIds: enabledLexiconIds,
+          languageVoices,
+          segmentOverrides,
+        },
+        createdAt: Date.now(),
+        projectId: project?.id,
+      };
+      setGeneratedAudio(audio);
       setStatus(TTSStatus.SUCCESS);
-      incrementUsage();
-    } catch (err: any) {
+      archive(audio, audio.meta);
+    } catch (err) {
       console.error(err);
+      const error = toTTSError(err);
       setStatus(TTSStatus.ERROR);
-      
-      // Handle 429 Quota Exceeded specifically
-      if (err.message?.includes('429') || err.status === 429 || err.message?.includes('RESOURCE_EXHAUSTED')) {
-        setErrorMsg("Quota exceeded (429). The system is busy. Please wait a moment.");
-      } else {
-        setErrorMsg(err.message || "Failed to generate speech. Please try again.");
-      }
+      setErrorCode(error.code);
+      setErrorMsg(error.message);
     }
   };
 
+  // Saves to the history library in the background; a failure here must not fail the generation
+  const archive = (audio: GeneratedAudio, meta: GenerationMeta) => {
+    saveToHistory(audio, meta)
+      .then(() => setHistoryVersion(v => v + 1))
+      .catch(err => console.error('Could not save to history', err));
+  };
+
+  const handleBatchItemGenerated = (audio: GeneratedAudio, itemText: string, voiceId: string) => {
+    archive(audio, {
+      id: createGenerationId(),
+      text: itemText,
+      voiceId,
+      providerId,
+      mode: 'batch',
+      settings: { chunkMaxChars: DEFAULT_CHUNK_MAX_CHARS, lexiconIds: enabledLexiconIds, delivery, languageVoices },
+      createdAt: Date.now(),
+      projectId: project?.id,
+    });
+  };
+
+  // Restores the entry's settings, then generates once the new state has rendered
+  const handleRegenerate = (entry: HistoryEntry) => {
+    if (status === TTSStatus.GENERATING) return;
+    if (entry.providerId !== providerId) handleProviderChange(entry.providerId);
+    setMode(entry.mode === 'batch' ? 'single' : entry.mode);
+    setText(entry.text);
+    setSelectedVoice(entry.voiceId);
+    setSpeakerVoices(entry.settings.speakerVoices || {});
+    setChunkMaxChars(entry.settings.chunkMaxChars);
+    setTargetDuration(entry.settings.targetSeconds ? String(entry.settings.targetSeconds / 60) : '');
+    setFitToTarget(entry.settings.fitToTarget ?? true);
+    setDelivery(entry.settings.delivery ?? DEFAULT_DELIVERY);
+    // Only dictionaries that still exist; entries saved before dictionaries existed keep the current choice
+    if (entry.settings.lexiconIds) handleEnabledLexiconsChange(entry.settings.lexiconIds.filter(id => lexicons.some(l => l.id === id)));
+    setLanguageVoices(entry.settings.languageVoices || {});
+    setSegmentOverrides(entry.settings.segmentOverrides || {});
+    setChunkJobs([]);
+    setRegeneratePending(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  useEffect(() => {
+    if (!regeneratePending) return;
+    setRegeneratePending(false);
+    handleGenerate();
+  }, [regeneratePending]);
+
+  const handleOpenFromHistory = (audio: GeneratedAudio) => {
+    setGeneratedAudio(audio);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleExportSettingsChange = (settings: ExportSettings) => {
+    setExportSettings(settings);
+    saveExportSettings(settings);
+  };
+
+  const handleRetryFailed = () => {
+    if (status === TTSStatus.GENERATING) return;
+    runChunks(chunkJobs);
+  };
+
   const handleTextChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setText(e.target.value);
+    // Chunks no longer match the text, so a partial run can't be resumed
+    setChunkJobs([]);
     if (errorMsg) setErrorMsg(null);
   };
 
-  const handleChangeApiKey = async () => {
-    if (window.aistudio?.openSelectKey) {
-      // 1. Open the Key Selector
-      await window.aistudio.openSelectKey();
-      
-      // 2. Reset the App State for the new Key
-      setErrorMsg(null);
-      setStatus(TTSStatus.IDLE);
-      
-      // 3. Reset Usage Counters so the new key works immediately without "limit reached" blocks
-      setDailyRequests(0);
-      setMinuteRequests(0);
-      setSecondsUntilReset(60);
-      
-      // 4. Clear Storage
-      const today = new Date().toISOString().split('T')[0];
-      localStorage.removeItem(`gemini_tts_usage_${today}`);
-      
-      // Optional: Give visual feedback
-      alert("API Key updated. Usage counters have been reset.");
-    } else {
-      alert("API Key selection is not available in this environment.");
+  const handleVoiceSelect = (voiceId: string) => {
+    setSelectedVoice(voiceId);
+    setChunkJobs([]);
+  };
+
+  const handleAliasesChange = () => {
+    const next = listVoices();
+    setVoices(next);
+    // A deleted alias can't stay selected
+    if (!next.some(v => v.id === selectedVoice)) setSelectedVoice(defaultVoice);
+  };
+
+  const handleLanguageVoiceChange = (language: string, voiceId: string) => {
+    setLanguageVoices(prev => {
+      const { [language]: _previous, ...rest } = prev;
+      return voiceId ? { ...rest, [language]: voiceId } : rest;
+    });
+    setChunkJobs([]);
+  };
+
+  const handleOverrideChange = (key: string, override: SegmentOverride | undefined) => {
+    const { [key]: _previous, ...rest } = segmentOverrides;
+    // Overrides of paragraphs that have since been edited away go at the same time
+    setSegmentOverrides(pruneOverrides(override ? { ...rest, [key]: override } : rest, segments));
+    setChunkJobs([]);
+  };
+
+  const handleSegmentFocus = (segment: PlannedSegment) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(segment.start, segment.end);
+  };
+
+  const handleDeliveryChange = (settings: DeliverySettings) => {
+    setDelivery(settings);
+    setChunkJobs([]);
+  };
+
+  const handleLexiconsChange = (updated: Lexicon[]) => {
+    setLexicons(updated);
+    setChunkJobs([]);
+  };
+
+  const handleEnabledLexiconsChange = (ids: string[]) => {
+    setEnabledLexiconIds(ids);
+    saveEnabledLexiconIds(ids);
+    setChunkJobs([]);
+  };
+
+  const handleSpeakerVoiceChange = (speaker: string, voiceId: string) => {
+    setSpeakerVoices(prev => ({ ...prev, [speaker]: voiceId }));
+    setChunkJobs([]);
+  };
+
+  const handleModeChange = (newMode: InputMode) => {
+    setMode(newMode);
+    setChunkJobs([]);
+    setErrorMsg(null);
+  };
+
+  const handleProviderChange = (id: TTSProviderId) => {
+    setActiveProvider(id);
+    setProviderId(id);
+    setChunkJobs([]);
+    setGeneratedAudio(null);
+    // Fall back to a voice the new engine can actually speak with
+    const supported = getAvailableVoiceIds(voices, PROVIDERS[id].supportedVoiceIds);
+    if (!supported.includes(selectedVoice) && supported.length > 0) {
+      setSelectedVoice(supported[0]);
     }
   };
 
+  // Saved per key and model, e.g. to raise the limits for a paid-tier key
+  const handleLimitChange = (field: 'rpm' | 'rpd', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (!(parsed > 0)) return;
+    setLimits(rateScope, { ...usage.limits, [field]: parsed });
+  };
+
+  const handleManageKeys = () => {
+    document.getElementById('usage')?.scrollIntoView({ behavior: 'smooth' });
+  };
+
   // --- Calculations for UI ---
-  const dailyRemaining = DAILY_REQUEST_LIMIT - dailyRequests;
-  const dailyPercentage = Math.min(100, (dailyRequests / DAILY_REQUEST_LIMIT) * 100);
+  const dailyPercentage = Math.min(100, (usage.dayUsed / usage.limits.rpd) * 100);
   
-  const minuteRemaining = MINUTE_REQUEST_LIMIT - minuteRequests;
+  const minuteRemaining = Math.max(0, usage.limits.rpm - usage.minuteUsed);
   const isMinuteFull = minuteRemaining <= 0;
+  const secondsUntilSlot = Math.ceil(usage.nextSlotInMs / 1000);
+  const isQueued = status === TTSStatus.GENERATING && chunkJobs.some(job => job.status === TTSStatus.QUEUED);
 
   let barColor = "bg-blue-500";
   if (dailyPercentage > 75) barColor = "bg-yellow-500";
@@ -161,7 +563,7 @@ const App: React.FC = () => {
                     Gemini TTS
                 </h1>
                 <div className="text-[10px] text-slate-500 font-mono hidden sm:block">
-                    RPM Protection Active
+                    {provider.metered ? 'RPM Protection Active' : 'Offline Engine (no quota used)'}
                 </div>
              </div>
           </div>
@@ -180,10 +582,10 @@ const App: React.FC = () => {
                     <div className="w-16 h-1 bg-slate-800 rounded-full overflow-hidden">
                         <div 
                             className={`h-full ${isMinuteFull ? 'bg-red-500' : 'bg-blue-500'}`} 
-                            style={{ width: `${(minuteRequests / MINUTE_REQUEST_LIMIT) * 100}%` }}
+                            style={{ width: `${Math.min(100, (usage.minuteUsed / usage.limits.rpm) * 100)}%` }}
                         ></div>
                     </div>
-                    <span className="text-[10px] text-slate-500 w-8 text-right">{secondsUntilReset}s</span>
+                    <span className="text-[10px] text-slate-500 w-8 text-right">{isMinuteFull ? `${secondsUntilSlot}s` : ''}</span>
                  </div>
              </div>
 
@@ -204,13 +606,14 @@ const App: React.FC = () => {
              </div>
 
              <button
-               onClick={handleChangeApiKey}
+               onClick={handleManageKeys}
+               title="Usage & keys"
                className="flex items-center gap-2 text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-2 rounded-lg border border-slate-700 transition-colors"
              >
                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-3.5 h-3.5 text-yellow-500">
                  <path fillRule="evenodd" d="M15.75 1.5a6.75 6.75 0 0 0-6.651 7.906c.067.39-.032.717-.221.906l-6.5 6.499a3 3 0 0 0-.878 2.121v2.818c0 .414.336.75.75.75h2.818a3 3 0 0 0 2.122-.878l6.499-6.499c.189-.189.516-.288.906-.221A6.75 6.75 0 1 0 15.75 1.5Zm0 3a.75.75 0 0 0 0 1.5h1.5a.75.75 0 0 0 0-1.5h-1.5Z" clipRule="evenodd" />
                </svg>
-               <span className="hidden sm:inline">Change Key</span>
+               <span className="hidden sm:inline max-w-[8rem] truncate">{activeKey?.name ?? 'Add API key'}</span>
              </button>
           </div>
         </div>
@@ -218,16 +621,93 @@ const App: React.FC = () => {
 
       {/* Main Content */}
       <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {project && (
+          <ProjectBar
+              projects={projects}
+              project={{ ...project, workspace }}
+              status={autosaveStatus}
+              recovered={recovered}
+              disabled={status === TTSStatus.GENERATING}
+              onSwitch={handleProjectSwitch}
+              onCreate={handleProjectCreate}
+              onRename={handleProjectRename}
+              onDelete={handleProjectDelete}
+              onDocumentImported={handleDocumentImported}
+              onProjectImported={handleProjectImported}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
           
           {/* Left Sidebar: Settings */}
           <div className="lg:col-span-4 space-y-8">
-            <VoiceSelector 
-                voices={VOICES} 
-                selectedVoice={selectedVoice} 
-                onSelect={setSelectedVoice} 
+            {mode === 'dialogue' ? (
+                <SpeakerVoiceMap
+                    speakers={script?.speakers || []}
+                    voices={voices}
+                    speakerVoices={effectiveSpeakerVoices}
+                    onChange={handleSpeakerVoiceChange}
+                    supportedVoiceIds={availableVoiceIds}
+                />
+            ) : (
+                <VoiceSelector 
+                    voices={voices} 
+                    selectedVoice={selectedVoice} 
+                    onSelect={handleVoiceSelect} 
+                    supportedVoiceIds={availableVoiceIds}
+                    onAliasesChange={handleAliasesChange}
+                />
+            )}
+
+            {mode !== 'batch' && (
+                <DeliveryPanel
+                    voice={voices.find(v => v.id === selectedVoice) || voices[0]}
+                    delivery={delivery}
+                    onChange={handleDeliveryChange}
+                    disabled={status === TTSStatus.GENERATING}
+                />
+            )}
+
+            {mode !== 'batch' && (
+                <LanguagePanel
+                    voices={voices}
+                    supportedVoiceIds={availableVoiceIds}
+                    plan={segmentPlan}
+                    languageVoices={languageVoices}
+                    onLanguageVoiceChange={handleLanguageVoiceChange}
+                    onOverrideChange={handleOverrideChange}
+                    onSegmentFocus={handleSegmentFocus}
+                    disabled={status === TTSStatus.GENERATING}
+                />
+            )}
+
+            <LexiconPanel
+                lexicons={lexicons}
+                enabledIds={enabledLexiconIds}
+                onLexiconsChange={handleLexiconsChange}
+                onEnabledChange={handleEnabledLexiconsChange}
+                disabled={status === TTSStatus.GENERATING}
             />
 
+            {/* Engine Selector */}
+            <div>
+              <label className="block text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2">
+                  Engine
+              </label>
+              <select
+                  value={providerId}
+                  onChange={(e) => handleProviderChange(e.target.value as TTSProviderId)}
+                  disabled={status === TTSStatus.GENERATING}
+                  className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+              >
+                  {Object.values(PROVIDERS).map(p => (
+                      <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+              </select>
+            </div>
+
+            <CacheStatus refreshKey={historyVersion} />
+
             {/* Info Card */}
             <div className="bg-slate-800/40 border border-slate-700/50 p-4 rounded-xl text-sm text-slate-400">
               <div className="flex items-start gap-3">
@@ -237,11 +717,31 @@ const App: React.FC = () => {
                   <div>
                       <p className="mb-2 font-semibold text-slate-300">How limits work</p>
                       <ul className="list-disc pl-4 space-y-1 text-xs">
-                          <li><span className="text-blue-400">Daily:</span> 1,500 requests per day.</li>
-                          <li><span className="text-blue-400">Speed (RPM):</span> 15 requests per minute.</li>
+                          <li>
+                              <span className="text-blue-400">Daily:</span>{' '}
+                              <input
+                                  type="number"
+                                  min="1"
+                                  value={usage.limits.rpd}
+                                  onChange={(e) => handleLimitChange('rpd', e.target.value)}
+                                  className="w-16 bg-slate-900 border border-slate-700 rounded px-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                              />{' '}
+                              requests per day, resetting at {new Date(usage.dayResetsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.
+                          </li>
+                          <li>
+                              <span className="text-blue-400">Speed (RPM):</span>{' '}
+                              <input
+                                  type="number"
+                                  min="1"
+                                  value={usage.limits.rpm}
+                                  onChange={(e) => handleLimitChange('rpm', e.target.value)}
+                                  className="w-12 bg-slate-900 border border-slate-700 rounded px-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                              />{' '}
+                              requests in any 60 seconds.
+                          </li>
                       </ul>
                       <p className="mt-2 text-xs opacity-75">
-                          The timer in the header resets your "Speed Limit" every 60s to prevent 429 errors.
+                          Limits apply to the current key and model, across all open tabs. Extra requests wait in a queue for the next free slot instead of hitting 429 errors.
                       </p>
                   </div>
               </div>
@@ -252,10 +752,24 @@ const App: React.FC = () => {
           <div className="lg:col-span-8 flex flex-col h-full">
             <div className="flex-1 flex flex-col relative">
                 <div className="flex items-center justify-between mb-4">
-                  <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
-                      Input Text
-                  </label>
-                  <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-3">
+                    <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">
+                        Input Text
+                    </label>
+                    <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-0.5 text-xs">
+                      {(['single', 'dialogue', 'batch'] as const).map(m => (
+                        <button
+                          key={m}
+                          onClick={() => handleModeChange(m)}
+                          disabled={status === TTSStatus.GENERATING}
+                          className={`px-2.5 py-1 rounded-md transition-colors ${mode === m ? 'bg-slate-700 text-slate-100' : 'text-slate-400 hover:text-slate-200'}`}
+                        >
+                          {m === 'single' ? 'Single Voice' : m === 'dialogue' ? 'Dialogue Script' : 'Batch Queue'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className={`flex items-center gap-2 ${mode === 'batch' ? 'invisible' : ''}`}>
                      <label className="text-xs text-slate-400">Target Duration (min):</label>
                      <input 
                         type="number" 
@@ -266,95 +780,187 @@ const App: React.FC = () => {
                         onChange={(e) => setTargetDuration(e.target.value)}
                         className="w-20 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-blue-500 text-center"
                      />
+                     <label className="flex items-center gap-1 text-xs text-slate-400" title="Time-stretch the result toward the target without changing pitch">
+                        <input
+                           type="checkbox"
+                           checked={fitToTarget}
+                           onChange={(e) => setFitToTarget(e.target.checked)}
+                           className="accent-blue-500"
+                        />
+                        Fit
+                     </label>
                   </div>
                 </div>
+
+                {mode !== 'batch' && (
+                  <>
+                    {targetAssessment && (
+                        <div className={`mb-3 text-xs ${targetAssessment.feasible ? 'text-slate-400' : 'text-yellow-400'}`}>
+                            Estimated {formatDuration(targetAssessment.estimatedSeconds)} vs target {formatDuration(targetAssessment.targetSeconds)}. {targetAssessment.message}
+                            {!fitToTarget && targetAssessment.feasible && ' (Fit is off, so the output will not be adjusted.)'}
+                        </div>
+                    )}
                 
-                <div className="relative flex-1 group">
-                    <textarea
-                        value={text}
-                        onChange={handleTextChange}
-                        placeholder="Write or paste your article here to generate speech..."
-                        className="w-full h-[400px] lg:h-full bg-slate-900/50 border border-slate-700 rounded-xl p-6 text-base leading-relaxed text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 resize-none transition-all scrollbar-thin"
-                    />
-                    <div className="absolute bottom-4 right-4 text-xs text-slate-600 font-mono bg-slate-900/80 px-2 py-1 rounded">
-                        {text.length} chars
+                    <div className="relative flex-1 group">
+                        <ReadAlongHighlight textareaRef={textareaRef} text={text} sentence={readAlong?.sentence ?? null} word={readAlong?.word ?? null} />
+                        <textarea
+                            ref={textareaRef}
+                            value={text}
+                            onChange={handleTextChange}
+                            placeholder={mode === 'dialogue'
+                                ? "Host: Welcome back to the show.\nGuest: Thanks for having me!"
+                                : "Write or paste your article here to generate speech..."}
+                            className="relative w-full h-[400px] lg:h-full bg-slate-900/50 border border-slate-700 rounded-xl p-6 text-base leading-relaxed text-start [unicode-bidi:plaintext] text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 resize-none transition-all scrollbar-thin"
+                        />
+                        <div className="absolute bottom-4 right-4 text-xs text-slate-600 font-mono bg-slate-900/80 px-2 py-1 rounded">
+                            {text.length} chars{chunkCount > 1 ? ` · ${chunkCount} chunks` : ''}{estimatedSeconds > 0 ? ` · ≈${formatDuration(estimatedSeconds)}` : ''}
+                        </div>
                     </div>
-                </div>
 
-                {errorMsg && (
-                    <div className="mt-4 p-4 bg-red-900/20 border border-red-800/50 rounded-lg flex items-start gap-3 text-red-400 animate-fade-in">
-                         <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 shrink-0 mt-0.5">
-                            <path fillRule="evenodd" d="M9.401 3.003c1.155-2 4.043-2 5.197 0l7.355 12.748c1.154 2-.29 4.5-2.599 4.5H4.645c-2.309 0-3.752-2.5-2.598-4.5L9.4 3.003ZM12 8.25a.75.75 0 0 1 .75.75v3.75a.75.75 0 0 1-1.5 0V9a.75.75 0 0 1 .75-.75Zm0 8.25a.75.75 0 1 0 0-1.5.75.75 0 0 0 0 1.5Z" clipRule="evenodd" />
-                         </svg>
-                         <div className="flex flex-col gap-1">
-                           <span className="font-semibold">Attention:</span>
-                           <span>{errorMsg}</span>
-                           {errorMsg.includes('Quota exceeded') && (
-                             <button 
-                               onClick={handleChangeApiKey}
-                               className="text-blue-400 hover:text-blue-300 underline text-left mt-1 w-fit"
-                             >
-                               Click here to change API Key
-                             </button>
-                           )}
+                    <LexiconPreview text={text} entries={lexiconEntries} />
+
+                    {inputIssues.length > 0 && (
+                        <ul className="mt-3 space-y-1 text-xs text-yellow-400 font-mono">
+                            {inputIssues.slice(0, 5).map((issue, i) => (
+                                <li key={`${issue.lineNumber}-${i}`}>Line {issue.lineNumber}: {issue.message}</li>
+                            ))}
+                            {inputIssues.length > 5 && <li>…and {inputIssues.length - 5} more</li>}
+                        </ul>
+                    )}
+                    {inputIssues.length === 0 && inputWarnings.length > 0 && (
+                        <ul className="mt-3 space-y-1 text-xs text-slate-400 font-mono">
+                            {inputWarnings.slice(0, 3).map((warning, i) => (
+                                <li key={`${warning.lineNumber}-${i}`}>Line {warning.lineNumber}: {warning.message}</li>
+                            ))}
+                            {inputWarnings.length > 3 && <li>…and {inputWarnings.length - 3} more</li>}
+                        </ul>
+                    )}
+
+                    {errorMsg && (
+                        <div className="mt-4 p-4 bg-red-900/20 border border-red-800/50 rounded-lg flex items-start gap-3 text-red-400 animate-fade-in">
+                             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 shrink-0 mt-0.5">
+                                <path fillRule="evenodd" d="M9.401 3.003c1.155-2 4.043-2 5.197 0l7.355 12.748c1.154 2-.29 4.5-2.599 4.5H4.645c-2.309 0-3.752-2.5-2.598-4.5L9.4 3.003ZM12 8.25a.75.75 0 0 1 .75.75v3.75a.75.75 0 0 1-1.5 0V9a.75.75 0 0 1 .75-.75Zm0 8.25a.75.75 0 1 0 0-1.5.75.75 0 0 0 0 1.5Z" clipRule="evenodd" />
+                             </svg>
+                             <div className="flex flex-col gap-1">
+                               <span className="font-semibold">Attention:</span>
+                               <span>{errorMsg}</span>
+                               {(errorCode === 'QUOTA' || errorCode === 'AUTH') && (
+                                 <button 
+                                   onClick={handleManageKeys}
+                                   className="text-blue-400 hover:text-blue-300 underline text-left mt-1 w-fit"
+                                 >
+                                   Manage API keys
+                                 </button>
+                               )}
+                             </div>
+                        </div>
+                    )}
+
+                    {/* Controls Bar */}
+                    <div className="mt-6 flex flex-col sm:flex-row items-center justify-between gap-4">
+                         <div className="flex items-center gap-4">
+                            <ExportFormatPicker settings={exportSettings} onChange={handleExportSettingsChange} />
+                            <label className="flex items-center gap-2 text-xs text-slate-400">
+                               Chunk size:
+                               <select
+                                  value={chunkMaxChars}
+                                  onChange={(e) => { setChunkMaxChars(parseInt(e.target.value, 10)); setChunkJobs([]); }}
+                                  disabled={status === TTSStatus.GENERATING}
+                                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                               >
+                                  {CHUNK_SIZE_OPTIONS.map(size => (
+                                     <option key={size} value={size}>{size} chars</option>
+                                  ))}
+                               </select>
+                            </label>
                          </div>
+                     
+                         <button
+                            onClick={handleGenerate}
+                            disabled={status === TTSStatus.GENERATING || !text.trim() || inputIssues.length > 0}
+                            className={`
+                                w-full sm:w-auto px-8 py-3 rounded-xl font-bold shadow-lg flex items-center justify-center gap-2 transition-all
+                                ${status === TTSStatus.GENERATING || !text.trim()
+                                    ? 'bg-slate-700 text-slate-400 cursor-not-allowed' 
+                                    : 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:shadow-blue-500/25 hover:scale-[1.02] active:scale-[0.98]'
+                                }
+                            `}
+                         >
+                            {isQueued ? (
+                                <>
+                                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 animate-pulse text-red-400">
+                                      <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25Zm0 8.625a1.125 1.125 0 1 0 0 2.25 1.125 1.125 0 0 0 0-2.25ZM15.375 12a1.125 1.125 0 1 1 2.25 0 1.125 1.125 0 0 1-2.25 0ZM7.5 10.875a1.125 1.125 0 1 0 0 2.25 1.125 1.125 0 0 0 0-2.25Z" clipRule="evenodd" />
+                                    </svg>
+                                    <span>Queued, next slot in {secondsUntilSlot}s</span>
+                                </>
+                            ) : status === TTSStatus.GENERATING ? (
+                                <>
+                                    <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                    </svg>
+                                    Generating...
+                                </>
+                            ) : (
+                                <>
+                                    <span>Generate Speech</span>
+                                    <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+                                        <path d="M11.644 1.59a.75.75 0 0 1 .712 0l9.75 5.25a.75.75 0 0 1 0 1.32l-9.75 5.25a.75.75 0 0 1-.712 0l-9.75-5.25a.75.75 0 0 1 0-1.32l9.75-5.25Z" />
+                                        <path d="m3.265 10.602 7.668 4.129a2.25 2.25 0 0 0 2.134 0l7.668-4.13 1.37.739a.75.75 0 0 1 0 1.32l-9.75 5.25a.75.75 0 0 1-.712 0l-9.75-5.25a.75.75 0 0 1 0-1.32l1.37-.738Z" />
+                                        <path d="m10.933 19.231-7.668-4.13-1.37.739a.75.75 0 0 0 0 1.32l9.75 5.25a.75.75 0 0 0 .712 0l9.75-5.25a.75.75 0 0 0 0-1.32l-1.37-.738-7.668 4.13a2.25 2.25 0 0 1-2.134 0Z" />
+                                    </svg>
+                                </>
+                            )}
+                         </button>
                     </div>
-                )}
 
-                {/* Controls Bar */}
-                <div className="mt-6 flex flex-col sm:flex-row items-center justify-between gap-4">
-                     <p className="text-xs text-slate-500 hidden sm:block">
-                        Output Format: MP3 (24kHz Mono)
-                     </p>
-                     
-                     <button
-                        onClick={handleGenerate}
-                        disabled={status === TTSStatus.GENERATING || !text.trim() || isMinuteFull}
-                        className={`
-                            w-full sm:w-auto px-8 py-3 rounded-xl font-bold shadow-lg flex items-center justify-center gap-2 transition-all
-                            ${status === TTSStatus.GENERATING || !text.trim() || isMinuteFull
-                                ? 'bg-slate-700 text-slate-400 cursor-not-allowed' 
-                                : 'bg-gradient-to-r from-blue-600 to-indigo-600 text-white hover:shadow-blue-500/25 hover:scale-[1.02] active:scale-[0.98]'
-                            }
-                        `}
-                     >
-                        {isMinuteFull ? (
-                            <>
-                                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5 animate-pulse text-red-400">
-                                  <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25Zm0 8.625a1.125 1.125 0 1 0 0 2.25 1.125 1.125 0 0 0 0-2.25ZM15.375 12a1.125 1.125 0 1 1 2.25 0 1.125 1.125 0 0 1-2.25 0ZM7.5 10.875a1.125 1.125 0 1 0 0 2.25 1.125 1.125 0 0 0 0-2.25Z" clipRule="evenodd" />
-                                </svg>
-                                <span>Wait {secondsUntilReset}s</span>
-                            </>
-                        ) : status === TTSStatus.GENERATING ? (
-                            <>
-                                <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                </svg>
-                                Generating...
-                            </>
-                        ) : (
-                            <>
-                                <span>Generate Speech</span>
-                                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
-                                    <path d="M11.644 1.59a.75.75 0 0 1 .712 0l9.75 5.25a.75.75 0 0 1 0 1.32l-9.75 5.25a.75.75 0 0 1-.712 0l-9.75-5.25a.75.75 0 0 1 0-1.32l9.75-5.25Z" />
-                                    <path d="m3.265 10.602 7.668 4.129a2.25 2.25 0 0 0 2.134 0l7.668-4.13 1.37.739a.75.75 0 0 1 0 1.32l-9.75 5.25a.75.75 0 0 1-.712 0l-9.75-5.25a.75.75 0 0 1 0-1.32l1.37-.738Z" />
-                                    <path d="m10.933 19.231-7.668-4.13-1.37.739a.75.75 0 0 0 0 1.32l9.75 5.25a.75.75 0 0 0 .712 0l9.75-5.25a.75.75 0 0 0 0-1.32l-1.37-.738-7.668 4.13a2.25 2.25 0 0 1-2.134 0Z" />
-                                </svg>
-                            </>
-                        )}
-                     </button>
-                </div>
+                    {chunkJobs.length > 1 && (
+                        <ChunkProgress
+                          jobs={chunkJobs}
+                          isRunning={status === TTSStatus.GENERATING}
+                          onRetryFailed={handleRetryFailed}
+                        />
+                    )}
 
-                {generatedAudio && (
-                    <OutputPlayer 
-                      audio={generatedAudio} 
-                      targetDuration={targetDuration ? parseFloat(targetDuration) : undefined}
-                    />
+                    {generatedAudio && (
+                        <OutputPlayer 
+                          audio={generatedAudio} 
+                          targetDuration={targetDuration ? parseFloat(targetDuration) : undefined}
+                          exportSettings={exportSettings}
+                          onPositionChange={setPlaybackPosition}
+                        />
+                    )}
+                  </>
                 )}
+
+                {/* Kept mounted while hidden so the queue keeps running in the background */}
+                <div className={mode === 'batch' ? '' : 'hidden'}>
+                    <BatchPanel
+                      voices={voices}
+                      defaultVoiceId={selectedVoice}
+                      lexicon={lexiconEntries}
+                      delivery={delivery}
+                      routing={{ voices, availableVoiceIds, languageVoices }}
+                      onItemGenerated={handleBatchItemGenerated}
+                    />
+                </div>
             </div>
           </div>
         </div>
+
+        <section id="usage" className="mt-12 pt-8 border-t border-slate-800">
+          <UsageDashboard keys={apiKeys} activeKeyId={activeKey?.id} />
+        </section>
+
+        <section className="mt-12 pt-8 border-t border-slate-800">
+          <HistoryLibrary
+              voices={voices}
+              refreshKey={historyVersion}
+              projectId={project?.id}
+              onOpen={handleOpenFromHistory}
+              onRegenerate={handleRegenerate}
+          />
+        </section>
       </main>
     </div>
   );
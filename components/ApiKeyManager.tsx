@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ApiKeyEntry } from '../types';
+import { addApiKey, deleteApiKey, moveApiKey, renameApiKey, selectAiStudioKey, setActiveApiKey } from '../services/apiKeyStore';
+
+interface ApiKeyManagerProps {
+  keys: ApiKeyEntry[];
+  activeKeyId?: string;
+  /** Requests sent today, by key id. */
+  requestsToday: Record<string, number>;
+}
+
+const ApiKeyManager: React.FC<ApiKeyManagerProps> = ({ keys, activeKeyId, requestsToday }) => {
+  const [name, setName] = useState<string>('');
+  const [key, setKey] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const entry = addApiKey(name, key);
+      if (keys.length === 0) setActiveApiKey(entry.id);
+      setName('');
+      setKey('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleAiStudioSelect = async () => {
+    try {
+      await selectAiStudioKey();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleRename = (entry: ApiKeyEntry) => {
+    const next = window.prompt('Key name:', entry.name)?.trim();
+    if (next) renameApiKey(entry.id, next);
+  };
+
+  const handleDelete = (entry: ApiKeyEntry) => {
+    if (!window.confirm(`Remove "${entry.name}"? Its usage history is kept.`)) return;
+    deleteApiKey(entry.id);
+  };
+
+  const inputClass = 'bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500';
+  const savedKeys = keys.filter(entry => !entry.fromEnvironment);
+
+  return (
+    <div className="space-y-3">
+      {keys.length === 0 && <p className="text-xs text-yellow-400">No API key yet. Add one to use the Gemini engine.</p>}
+      <ul className="space-y-2">
+        {keys.map(entry => {
+          const isActive = entry.id === activeKeyId;
+          const savedIndex = savedKeys.indexOf(entry);
+          return (
+            <li
+              key={entry.id}
+              className={`flex flex-wrap items-center gap-x-3 gap-y-1 p-3 rounded-xl border text-sm ${
+                isActive ? 'bg-blue-500/10 border-blue-500/60' : 'bg-slate-800/40 border-slate-700/50'
+              }`}
+            >
+              <button
+                onClick={() => setActiveApiKey(entry.id)}
+                disabled={isActive}
+                className={`text-xs font-medium ${isActive ? 'text-blue-300' : 'text-slate-400 hover:text-white'}`}
+              >
+                {isActive ? '● Active' : '○ Use'}
+              </button>
+              <span className="font-medium text-slate-200">{entry.name}</span>
+              <span className="text-[10px] font-mono text-slate-500">…{entry.key.slice(-4)}</span>
+              <span className="text-xs text-slate-500">{requestsToday[entry.id] ?? 0} requests today</span>
+              {!entry.fromEnvironment && (
+                <div className="ml-auto flex items-center gap-2 text-xs">
+                  <button onClick={() => moveApiKey(entry.id, -1)} disabled={savedIndex === 0} className="text-slate-400 hover:text-white disabled:opacity-30" title="Earlier in the failover order">↑</button>
+                  <button onClick={() => moveApiKey(entry.id, 1)} disabled={savedIndex === savedKeys.length - 1} className="text-slate-400 hover:text-white disabled:opacity-30" title="Later in the failover order">↓</button>
+                  <button onClick={() => handleRename(entry)} className="text-slate-400 hover:text-white">Rename</button>
+                  <button onClick={() => handleDelete(entry)} className="text-slate-500 hover:text-red-400">✕</button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleAdd} className="flex flex-wrap gap-2">
+        <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Team paid key" className={`flex-1 min-w-[140px] ${inputClass}`} />
+        <input
+          type="password"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+          placeholder="API key"
+          autoComplete="off"
+          className={`flex-[2] min-w-[180px] ${inputClass}`}
+        />
+        <button type="submit" disabled={!key.trim()} className="text-xs font-medium bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white px-3 py-1.5 rounded-lg">
+          Add key
+        </button>
+        {window.aistudio?.openSelectKey && (
+          <button type="button" onClick={handleAiStudioSelect} className="text-xs text-blue-400 hover:text-blue-300">
+            Select in AI Studio
+          </button>
+        )}
+      </form>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <p className="text-[11px] text-slate-500">
+        When the active key hits its quota (429), requests move on to the next key in this list, and that key becomes active.
+        Added keys are stored in this browser only.
+      </p>
+    </div>
+  );
+};
+
+export default ApiKeyManager;
@@ -0,0 +1,230 @@
+import React, { useRef, useState } from 'react';
+import { BatchItem, DeliverySettings, GeneratedAudio, LexiconEntry, TTSStatus, VoiceOption } from '../types';
+import {
+  BatchController,
+  BatchImportResult,
+  createBatchController,
+  createBatchZip,
+  getItemFileName,
+  parseBatchCsv,
+  parseBatchLines,
+  runBatch,
+} from '../services/batchQueue';
+import { RoutingOptions } from '../services/languageService';
+import { downloadBlob } from '../utils/download';
+import { base64ToPcm, createWavBlob } from '../utils/audioUtils';
+import { formatDuration } from './OutputPlayer';
+
+interface BatchPanelProps {
+  voices: VoiceOption[];
+  defaultVoiceId: string;
+  /** Active pronunciation entries; changes apply from the next item on. */
+  lexicon?: LexiconEntry[];
+  /** Delivery and language routing as in the editor, so an item sounds as it would there. Also read per item. */
+  delivery?: DeliverySettings;
+  routing?: RoutingOptions;
+  /** Called once for every item that finishes successfully. */
+  onItemGenerated?: (audio: GeneratedAudio, text: string, voiceId: string) => void;
+}
+
+const STATUS_LABELS: Record<TTSStatus, { label: string; className: string }> = {
+  [TTSStatus.IDLE]: { label: 'Pending', className: 'bg-slate-700 text-slate-300' },
+  [TTSStatus.QUEUED]: { label: 'Queued', className: 'bg-slate-600 text-slate-200' },
+  [TTSStatus.GENERATING]: { label: 'Generating', className: 'bg-blue-500/20 text-blue-300 animate-pulse' },
+  [TTSStatus.SUCCESS]: { label: 'Done', className: 'bg-green-500/20 text-green-300' },
+  [TTSStatus.ERROR]: { label: 'Failed', className: 'bg-red-500/20 text-red-300' },
+};
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ voices, defaultVoiceId, lexicon = [], delivery, routing, onItemGenerated }) => {
+  const [input, setInput] = useState<string>('');
+  const [issues, setIssues] = useState<BatchImportResult['issues']>([]);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
+
+  // The runner reads the queue between items, so it needs the latest list rather than a render snapshot
+  const itemsRef = useRef<BatchItem[]>([]);
+  const controllerRef = useRef<BatchController | null>(null);
+  const lexiconRef = useRef<LexiconEntry[]>(lexicon);
+  lexiconRef.current = lexicon;
+  const deliveryRef = useRef(delivery);
+  deliveryRef.current = delivery;
+  const routingRef = useRef(routing);
+  routingRef.current = routing;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setQueue = (updater: (prev: BatchItem[]) => BatchItem[]) => {
+    itemsRef.current = updater(itemsRef.current);
+    setItems(itemsRef.current);
+  };
+
+  const start = async () => {
+    if (controllerRef.current) return;
+    const controller = createBatchController(() => setIsPaused(controller.isPaused()));
+    controllerRef.current = controller;
+    setIsRunning(true);
+    setIsPaused(false);
+
+    try {
+      await runBatch({
+        controller,
+        getItems: () => itemsRef.current,
+        getLexicon: () => lexiconRef.current,
+        getDelivery: () => deliveryRef.current,
+        getRouting: () => routingRef.current,
+        updateItem: (id, patch) => {
+          setQueue(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+          const item = itemsRef.current.find(i => i.id === id);
+          if (item && patch.status === TTSStatus.SUCCESS && patch.audio) onItemGenerated?.(patch.audio, item.text, item.voiceId);
+        },
+      });
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+      setIsPaused(false);
+    }
+  };
+
+  const enqueue = (result: BatchImportResult) => {
+    setIssues(result.issues);
+    if (result.items.length === 0) return;
+    setQueue(prev => [...prev, ...result.items]);
+    start();
+  };
+
+  const handleAddLines = () => {
+    enqueue(parseBatchLines(input, defaultVoiceId));
+    setInput('');
+  };
+
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    enqueue(file.name.toLowerCase().endsWith('.csv')
+      ? parseBatchCsv(content, defaultVoiceId)
+      : parseBatchLines(content, defaultVoiceId));
+  };
+
+  const handleRetryFailed = () => {
+    setQueue(prev => prev.map(item => (item.status === TTSStatus.ERROR ? { ...item, status: TTSStatus.IDLE, error: undefined } : item)));
+    start();
+  };
+
+  const handleRemove = (id: string) => {
+    setQueue(prev => prev.filter(item => item.id !== id || item.status === TTSStatus.QUEUED || item.status === TTSStatus.GENERATING));
+  };
+
+  const handleClearFinished = () => {
+    setQueue(prev => prev.filter(item => item.status !== TTSStatus.SUCCESS));
+  };
+
+  const handleDownloadZip = () => {
+    downloadBlob(createBatchZip(items), `gemini-tts-batch-${new Date().toISOString().slice(0, 10)}.zip`);
+  };
+
+  const doneCount = items.filter(item => item.status === TTSStatus.SUCCESS).length;
+  const failedCount = items.filter(item => item.status === TTSStatus.ERROR).length;
+  const pendingCount = items.filter(item => item.status === TTSStatus.IDLE).length;
+  const voiceName = (id: string) => voices.find(v => v.id === id)?.name || id;
+
+  const buttonClass = 'text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={"One snippet per line, e.g.\nAdd to cart\nYour order has shipped!"}
+          className="w-full h-40 bg-slate-900/50 border border-slate-700 rounded-xl p-4 text-sm leading-relaxed text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 resize-none scrollbar-thin"
+        />
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+          <p className="text-xs text-slate-500">
+            Rows without a voice use {voiceName(defaultVoiceId)}. CSV files may add a <span className="font-mono">voice</span> column.
+          </p>
+          <div className="flex gap-2">
+            <input ref={fileInputRef} type="file" accept=".csv,.txt" onChange={handleFileImport} className="hidden" />
+            <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>Import CSV / TXT</button>
+            <button onClick={handleAddLines} disabled={!input.trim()} className={buttonClass}>Add to queue</button>
+          </div>
+        </div>
+        {issues.length > 0 && (
+          <ul className="mt-2 space-y-1 text-xs text-yellow-400 font-mono">
+            {issues.slice(0, 5).map(issue => (
+              <li key={issue.lineNumber}>Row {issue.lineNumber} skipped: {issue.message}</li>
+            ))}
+            {issues.length > 5 && <li>…and {issues.length - 5} more</li>}
+          </ul>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="p-4 bg-slate-800/40 border border-slate-700/50 rounded-xl">
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+            <span className="text-xs text-slate-400">
+              {doneCount} done · {pendingCount} pending{failedCount > 0 ? ` · ${failedCount} failed` : ''}
+              {isPaused && <span className="text-yellow-400"> · paused</span>}
+            </span>
+            <div className="flex flex-wrap gap-2">
+              {isRunning ? (
+                <>
+                  <button
+                    onClick={() => (isPaused ? controllerRef.current?.resume() : controllerRef.current?.pause())}
+                    className={buttonClass}
+                  >
+                    {isPaused ? 'Resume' : 'Pause'}
+                  </button>
+                  <button onClick={() => controllerRef.current?.cancel()} className={buttonClass}>Cancel</button>
+                </>
+              ) : (
+                <button onClick={start} disabled={pendingCount === 0} className={buttonClass}>Start</button>
+              )}
+              <button onClick={handleRetryFailed} disabled={failedCount === 0} className={buttonClass}>Retry failed</button>
+              <button onClick={handleClearFinished} disabled={doneCount === 0} className={buttonClass}>Clear finished</button>
+              <button onClick={handleDownloadZip} disabled={doneCount === 0} className={buttonClass}>Download ZIP</button>
+            </div>
+          </div>
+
+          <ul className="space-y-1 max-h-[420px] overflow-y-auto scrollbar-thin">
+            {items.map((item, index) => (
+              <li key={item.id} className="flex items-center gap-3 text-xs px-2 py-1.5 rounded hover:bg-slate-700/30">
+                <span className="font-mono text-slate-500 w-8 shrink-0">{index + 1}</span>
+                <span className={`px-2 py-0.5 rounded-full shrink-0 ${STATUS_LABELS[item.status].className}`}>
+                  {STATUS_LABELS[item.status].label}
+                </span>
+                <span dir="auto" className="text-slate-300 text-start truncate flex-1" title={item.error ? `${item.text}\n${item.error}` : item.text}>
+                  {item.text}
+                </span>
+                <span className="text-slate-500 shrink-0">{voiceName(item.voiceId)}</span>
+                {item.audio && (
+                  <>
+                    {item.audio.fromCache && <span className="text-teal-400 shrink-0" title="Served from the audio cache">cached</span>}
+                    <span className="font-mono text-slate-500 shrink-0">{formatDuration(item.audio.durationSeconds)}</span>
+                    <button
+                      onClick={() => downloadBlob(createWavBlob(base64ToPcm(item.audio!.base64Audio), item.audio!.sampleRate), getItemFileName(item, index))}
+                      className="text-blue-400 hover:text-blue-300 shrink-0"
+                    >
+                      WAV
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={() => handleRemove(item.id)}
+                  disabled={item.status === TTSStatus.QUEUED || item.status === TTSStatus.GENERATING}
+                  className="text-slate-500 hover:text-red-400 disabled:opacity-30 shrink-0"
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
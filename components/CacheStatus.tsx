@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { CacheStats, clearAudioCache, getCacheStats } from '../services/audioCache';
+import { formatBytes } from './HistoryLibrary';
+
+interface CacheStatusProps {
+  /** Bump to reload the stats after new audio may have been cached. */
+  refreshKey: number;
+}
+
+const CacheStatus: React.FC<CacheStatusProps> = ({ refreshKey }) => {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+
+  const reload = () => {
+    getCacheStats().then(setStats).catch(() => setStats(null));
+  };
+
+  useEffect(reload, [refreshKey]);
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear all cached audio? Repeat generations will use quota again.')) return;
+    await clearAudioCache();
+    reload();
+  };
+
+  if (!stats) return null;
+
+  return (
+    <div className="flex items-center justify-between gap-3 text-xs text-slate-400 bg-slate-800/40 border border-slate-700/50 px-4 py-3 rounded-xl">
+      <span title="Identical text, voice and model are served from here without using quota">
+        <span className="font-semibold text-slate-300">Audio cache:</span> {stats.entries} clips · {formatBytes(stats.bytes)}
+      </span>
+      <button
+        onClick={handleClear}
+        disabled={stats.entries === 0}
+        className="text-slate-400 hover:text-red-400 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+      >
+        Clear
+      </button>
+    </div>
+  );
+};
+
+export default CacheStatus;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ChunkJob, TTSStatus } from '../types';
+
+interface ChunkProgressProps {
+  jobs: ChunkJob[];
+  onRetryFailed?: () => void;
+  isRunning: boolean;
+}
+
+const STATUS_STYLES: Record<TTSStatus, string> = {
+  [TTSStatus.IDLE]: 'bg-slate-700',
+  [TTSStatus.QUEUED]: 'bg-slate-500',
+  [TTSStatus.GENERATING]: 'bg-blue-500 animate-pulse',
+  [TTSStatus.SUCCESS]: 'bg-green-500',
+  [TTSStatus.ERROR]: 'bg-red-500',
+};
+
+const ChunkProgress: React.FC<ChunkProgressProps> = ({ jobs, onRetryFailed, isRunning }) => {
+  const done = jobs.filter(job => job.status === TTSStatus.SUCCESS).length;
+  const failed = jobs.filter(job => job.status === TTSStatus.ERROR);
+  const cached = jobs.filter(job => job.audio?.fromCache).length;
+  const current = jobs.find(job => job.status === TTSStatus.GENERATING);
+  const percentage = jobs.length ? (done / jobs.length) * 100 : 0;
+
+  return (
+    <div className="mt-4 p-4 bg-slate-800/40 border border-slate-700/50 rounded-xl">
+      <div className="flex items-center justify-between text-xs mb-2">
+        <span className="text-slate-400">
+          {current
+            ? `Generating chunk ${current.index + 1} of ${jobs.length}${current.attempts > 0 ? ` (retry ${current.attempts})` : ''}...`
+            : `${done} of ${jobs.length} chunks generated`}
+          {cached > 0 && <span className="text-teal-400"> · {cached} from cache</span>}
+        </span>
+        <span className="font-mono text-slate-500">{Math.round(percentage)}%</span>
+      </div>
+
+      <div className="w-full h-1.5 bg-slate-800 rounded-full overflow-hidden mb-3">
+        <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${percentage}%` }}></div>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {jobs.map(job => (
+          <div
+            key={job.index}
+            title={`Chunk ${job.index + 1}${job.speaker ? ` (${job.speaker}, line ${job.lineNumber})` : ''}${job.audio?.fromCache ? ' [cached]' : ''}: ${job.text.slice(0, 80)}${job.text.length > 80 ? '…' : ''}${job.error ? `\n${job.error}` : ''}`}
+            className={`w-3 h-3 rounded-sm ${job.audio?.fromCache ? 'bg-teal-400' : STATUS_STYLES[job.status]}`}
+          ></div>
+        ))}
+      </div>
+
+      {!isRunning && failed.length > 0 && onRetryFailed && (
+        <div className="mt-3 flex items-center justify-between gap-3 text-xs">
+          <span className="text-red-400">
+            Chunk {failed[0].index + 1} failed: {failed[0].error}
+          </span>
+          <button
+            onClick={onRetryFailed}
+            className="shrink-0 bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-colors"
+          >
+            Retry remaining chunks
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChunkProgress;
@@ -0,0 +1,103 @@
+import React, { useMemo, useState } from 'react';
+import { DeliverySettings, SpeechPace, VoiceOption } from '../types';
+import { PACE_OPTIONS } from '../constants';
+import { deleteDeliveryPreset, listDeliveryPresets, saveDeliveryPreset } from '../services/deliveryService';
+
+interface DeliveryPanelProps {
+  /** Presets are saved for this voice; in dialogue mode, the voice of the first speaker. */
+  voice: VoiceOption;
+  delivery: DeliverySettings;
+  onChange: (delivery: DeliverySettings) => void;
+  disabled?: boolean;
+}
+
+const DeliveryPanel: React.FC<DeliveryPanelProps> = ({ voice, delivery, onChange, disabled }) => {
+  // Bumped after saving or deleting so the preset list is re-read from storage
+  const [presetsVersion, setPresetsVersion] = useState<number>(0);
+  const presets = useMemo(() => listDeliveryPresets(voice.id), [voice.id, presetsVersion]);
+  const activePreset = presets.find(p => p.delivery.tone === delivery.tone && p.delivery.pace === delivery.pace);
+
+  const handlePresetSelect = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) onChange({ ...preset.delivery });
+  };
+
+  const handleSave = () => {
+    const name = window.prompt(`Save this delivery as a preset for ${voice.name}:`, activePreset?.voiceId ? activePreset.name : '');
+    if (!name?.trim()) return;
+    saveDeliveryPreset(voice.id, name.trim(), delivery);
+    setPresetsVersion(v => v + 1);
+  };
+
+  const handleDelete = () => {
+    if (!activePreset?.voiceId) return;
+    deleteDeliveryPreset(activePreset.id);
+    setPresetsVersion(v => v + 1);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2">
+        Delivery
+      </label>
+      <div className="space-y-3 bg-slate-800/40 border border-slate-700/50 p-4 rounded-xl">
+        <div className="flex items-center gap-2">
+          <select
+            value={activePreset?.id || ''}
+            onChange={(e) => handlePresetSelect(e.target.value)}
+            disabled={disabled}
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+          >
+            {!activePreset && <option value="">Custom</option>}
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}{preset.voiceId ? ` (${voice.name})` : ''}
+              </option>
+            ))}
+          </select>
+          <button onClick={handleSave} disabled={disabled} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40">
+            Save
+          </button>
+          {activePreset?.voiceId && (
+            <button onClick={handleDelete} disabled={disabled} className="text-xs text-slate-500 hover:text-red-400 disabled:opacity-40" title="Delete preset">
+              ✕
+            </button>
+          )}
+        </div>
+
+        <input
+          type="text"
+          value={delivery.tone}
+          onChange={(e) => onChange({ ...delivery, tone: e.target.value })}
+          disabled={disabled}
+          placeholder="Tone, e.g. cheerful and warm"
+          className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500"
+        />
+
+        <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+          {PACE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => onChange({ ...delivery, pace: option.value as SpeechPace })}
+              disabled={disabled}
+              className={`flex-1 py-1 text-[11px] transition-colors ${
+                delivery.pace === option.value ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-800'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <p className="text-[11px] leading-relaxed text-slate-500">
+          In the text: <span className="font-mono text-slate-400">[pause 500ms]</span>,{' '}
+          <span className="font-mono text-slate-400">*emphasis*</span>,{' '}
+          <span className="font-mono text-slate-400">[style: whisper]</span> … <span className="font-mono text-slate-400">[/style]</span>.
+          Pauses and style changes start a new request.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryPanel;
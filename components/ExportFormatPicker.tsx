@@ -0,0 +1,62 @@
+import React from 'react';
+import { ExportFormat, ExportSettings } from '../types';
+import { EXPORT_SAMPLE_RATES } from '../constants';
+import { describeExportSettings, EXPORT_FORMATS, getBitrateOptions, normalizeExportSettings } from '../services/exportService';
+
+interface ExportFormatPickerProps {
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  disabled?: boolean;
+}
+
+const selectClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-40';
+
+const ExportFormatPicker: React.FC<ExportFormatPickerProps> = ({ settings, onChange, disabled }) => {
+  const bitrates = getBitrateOptions(settings.format);
+  const update = (patch: Partial<ExportSettings>) => onChange(normalizeExportSettings({ ...settings, ...patch }));
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-slate-400" title={`Output Format: ${describeExportSettings(settings)}`}>
+      <span className="hidden sm:inline">Output Format:</span>
+      <select
+        value={settings.format}
+        onChange={(e) => update({ format: e.target.value as ExportFormat })}
+        disabled={disabled}
+        className={selectClass}
+      >
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+          <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+        ))}
+      </select>
+      {settings.format === 'ogg' ? (
+        <span className="text-slate-500">48kHz</span>
+      ) : (
+        <select
+          value={settings.sampleRate}
+          onChange={(e) => update({ sampleRate: parseInt(e.target.value, 10) })}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {EXPORT_SAMPLE_RATES.map(rate => (
+            <option key={rate} value={rate}>{rate / 1000}kHz</option>
+          ))}
+        </select>
+      )}
+      {bitrates.length > 0 && (
+        <select
+          value={settings.bitrateKbps}
+          onChange={(e) => update({ bitrateKbps: parseInt(e.target.value, 10) })}
+          disabled={disabled}
+          className={selectClass}
+        >
+          {bitrates.map(rate => (
+            <option key={rate} value={rate}>{rate} kbps</option>
+          ))}
+        </select>
+      )}
+      <span className="text-slate-500">Mono</span>
+    </div>
+  );
+};
+
+export default ExportFormatPicker;
@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GeneratedAudio, HistoryEntry, VoiceOption } from '../types';
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  filterHistory,
+  getStorageUsage,
+  listHistory,
+  restoreFromHistory,
+  setHistoryPinned,
+  StorageUsage,
+} from '../services/historyStore';
+import { downloadBlob } from '../utils/download';
+import { formatDuration } from './OutputPlayer';
+
+interface HistoryLibraryProps {
+  voices: VoiceOption[];
+  /** Bump to reload after the app saves a new entry. */
+  refreshKey: number;
+  /** The open project; the library can be narrowed to its takes. */
+  projectId?: string;
+  onOpen: (audio: GeneratedAudio) => void;
+  onRegenerate: (entry: HistoryEntry) => void;
+}
+
+export const formatBytes = (bytes: number) => (bytes >= 1024 * 1024
+  ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  : `${Math.ceil(bytes / 1024)} KB`);
+
+const HistoryLibrary: React.FC<HistoryLibraryProps> = ({ voices, refreshKey, projectId, onOpen, onRegenerate }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [voiceFilter, setVoiceFilter] = useState<string>('');
+  const [projectOnly, setProjectOnly] = useState<boolean>(true);
+  const [playing, setPlaying] = useState<{ id: string; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = async () => {
+    try {
+      const list = await listHistory();
+      setEntries(list);
+      setUsage(await getStorageUsage(list));
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError('The history library is unavailable in this browser (IndexedDB is blocked or full).');
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [refreshKey]);
+
+  // Release the preview URL when switching entries or unmounting
+  useEffect(() => () => {
+    if (playing) URL.revokeObjectURL(playing.url);
+  }, [playing]);
+
+  const visible = useMemo(() => filterHistory(entries, {
+    query,
+    voiceId: voiceFilter || undefined,
+    projectId: projectOnly ? projectId : undefined,
+  }), [entries, query, voiceFilter, projectOnly, projectId]);
+  const voiceName = (id: string) => voices.find(v => v.id === id)?.name || id;
+
+  const handlePlay = (entry: HistoryEntry) => {
+    setPlaying(playing?.id === entry.id ? null : { id: entry.id, url: URL.createObjectURL(entry.wav) });
+  };
+
+  const handleOpen = async (entry: HistoryEntry) => {
+    onOpen(await restoreFromHistory(entry));
+  };
+
+  const handleDelete = async (entry: HistoryEntry) => {
+    if (!confirm('Delete this generation from the library?')) return;
+    if (playing?.id === entry.id) setPlaying(null);
+    await deleteHistoryEntry(entry.id);
+    reload();
+  };
+
+  const handlePin = async (entry: HistoryEntry) => {
+    await setHistoryPinned(entry.id, !entry.pinned);
+    reload();
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete every unpinned generation from the library?')) return;
+    setPlaying(null);
+    await clearHistory();
+    reload();
+  };
+
+  const linkClass = 'text-blue-400 hover:text-blue-300';
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h2 className="text-sm font-semibold text-slate-400 uppercase tracking-wider">History Library</h2>
+        {usage && (
+          <span className="text-xs font-mono text-slate-500">
+            {entries.length} takes · {formatBytes(usage.historyBytes)}
+            {usage.quotaBytes ? ` · ${Math.round(((usage.usedBytes || 0) / usage.quotaBytes) * 100)}% of browser quota` : ''}
+          </span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search text..."
+          className="flex-1 min-w-[200px] bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+        />
+        {projectId && (
+          <select
+            value={projectOnly ? 'project' : 'all'}
+            onChange={(e) => setProjectOnly(e.target.value === 'project')}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+          >
+            <option value="project">This project</option>
+            <option value="all">All projects</option>
+          </select>
+        )}
+        <select
+          value={voiceFilter}
+          onChange={(e) => setVoiceFilter(e.target.value)}
+          className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500"
+        >
+          <option value="">All voices</option>
+          {voices.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+        </select>
+        <button
+          onClick={handleClear}
+          disabled={entries.every(entry => entry.pinned)}
+          className="text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-colors disabled:opacity-40"
+        >
+          Clear unpinned
+        </button>
+      </div>
+
+      {error && <p className="text-xs text-red-400 mb-3">{error}</p>}
+
+      {visible.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          {entries.length === 0 ? 'Generations are saved here automatically.' : 'No generations match the filters.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {visible.map(entry => (
+            <li key={entry.id} className="p-3 bg-slate-800/40 border border-slate-700/50 rounded-xl">
+              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+                <span className="text-slate-500 font-mono">{new Date(entry.createdAt).toLocaleString()}</span>
+                <span className="font-semibold text-slate-300">
+                  {entry.mode === 'dialogue' ? `Dialogue (${Object.keys(entry.settings.speakerVoices || {}).length} speakers)` : voiceName(entry.voiceId)}
+                </span>
+                <span className="font-mono text-slate-500">{formatDuration(entry.durationSeconds)}</span>
+                {entry.providerId === 'local' && <span className="text-slate-500">offline</span>}
+                <div className="ml-auto flex items-center gap-3">
+                  <button onClick={() => handlePlay(entry)} className={linkClass}>{playing?.id === entry.id ? 'Stop' : 'Play'}</button>
+                  <button onClick={() => handleOpen(entry)} className={linkClass}>Open</button>
+                  <button onClick={() => downloadBlob(entry.wav, `gemini-tts-${entry.createdAt}.wav`)} className={linkClass}>Download</button>
+                  <button onClick={() => onRegenerate(entry)} className={linkClass}>Regenerate</button>
+                  <button onClick={() => handlePin(entry)} className={entry.pinned ? 'text-yellow-400' : 'text-slate-500 hover:text-yellow-300'} title="Pinned takes are never evicted">
+                    {entry.pinned ? '★' : '☆'}
+                  </button>
+                  <button onClick={() => handleDelete(entry)} className="text-slate-500 hover:text-red-400" title="Delete">✕</button>
+                </div>
+              </div>
+              <p dir="auto" className="mt-1 text-sm text-slate-400 text-start line-clamp-2">{entry.text}</p>
+              {playing?.id === entry.id && <audio src={playing.url} controls autoPlay className="w-full mt-2" />}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default HistoryLibrary;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { SegmentOverride, VoiceOption } from '../types';
+import { LANGUAGES } from '../constants';
+import { getLanguage, PlannedSegment } from '../services/languageService';
+
+interface LanguagePanelProps {
+  voices: VoiceOption[];
+  /** Ids the active provider can synthesize. */
+  supportedVoiceIds: string[];
+  plan: PlannedSegment[];
+  languageVoices: Record<string, string>;
+  onLanguageVoiceChange: (language: string, voiceId: string) => void;
+  /** `undefined` clears the segment's override. */
+  onOverrideChange: (key: string, override: SegmentOverride | undefined) => void;
+  /** Selects the segment's text in the editor. */
+  onSegmentFocus: (segment: PlannedSegment) => void;
+  disabled?: boolean;
+}
+
+const LanguagePanel: React.FC<LanguagePanelProps> = ({
+  voices,
+  supportedVoiceIds,
+  plan,
+  languageVoices,
+  onLanguageVoiceChange,
+  onOverrideChange,
+  onSegmentFocus,
+  disabled,
+}) => {
+  const [showSegments, setShowSegments] = useState<boolean>(false);
+  const available = voices.filter(voice => supportedVoiceIds.includes(voice.id));
+  const voiceName = (id: string) => voices.find(voice => voice.id === id)?.name || id;
+  const languageName = (code?: string) => getLanguage(code)?.name || code || '';
+
+  const counts = LANGUAGES.map(language => ({ language, count: plan.filter(s => s.language === language.code).length }))
+    .filter(({ count }) => count > 0);
+  const uncovered = Array.from(new Set<string>(plan.filter(s => !s.covered).map(s => s.language)));
+
+  const updateOverride = (segment: PlannedSegment, patch: SegmentOverride) => {
+    const next = { ...segment.override, ...patch };
+    if (!next.language) delete next.language;
+    if (!next.voiceId) delete next.voiceId;
+    onOverrideChange(segment.key, Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  const selectClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-slate-400 uppercase tracking-wider mb-2">
+        Languages
+      </label>
+      <div className="space-y-3 bg-slate-800/40 border border-slate-700/50 p-4 rounded-xl">
+        {LANGUAGES.map(language => (
+          <div key={language.code} className="flex items-center gap-2">
+            <span className="w-16 shrink-0 text-xs text-slate-400">{language.name}</span>
+            <select
+              value={languageVoices[language.code] || ''}
+              onChange={(e) => onLanguageVoiceChange(language.code, e.target.value)}
+              disabled={disabled}
+              className={`flex-1 min-w-0 ${selectClass}`}
+            >
+              <option value="">Any voice tagged {language.name}</option>
+              {available.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+            </select>
+          </div>
+        ))}
+
+        {counts.length > 0 && (
+          <p className="text-[11px] text-slate-500">
+            Detected: {counts.map(({ language, count }) => `${language.name} ${count}`).join(' · ')}
+          </p>
+        )}
+        {uncovered.length > 0 && (
+          <p className="text-[11px] text-yellow-400">
+            No voice is tagged for {uncovered.map(code => languageName(code)).join(' or ')}, so the selected voice reads it.
+            Pick one above, or tag an alias.
+          </p>
+        )}
+
+        {plan.length > 0 && (
+          <button onClick={() => setShowSegments(v => !v)} className="text-xs text-blue-400 hover:text-blue-300">
+            {showSegments ? 'Hide' : 'Show'} {plan.length} segment{plan.length === 1 ? '' : 's'}
+          </button>
+        )}
+        {showSegments && (
+          <ul className="space-y-2 max-h-[360px] overflow-y-auto pr-1">
+            {plan.map((segment, i) => (
+              <li key={`${segment.key}-${i}`} className="space-y-1.5 p-2 bg-slate-900/40 border border-slate-700/50 rounded-lg">
+                <button
+                  onClick={() => onSegmentFocus(segment)}
+                  dir="auto"
+                  title={`Line ${segment.startLine}${segment.endLine > segment.startLine ? `–${segment.endLine}` : ''}`}
+                  className="block w-full text-start truncate text-xs text-slate-300 hover:text-white"
+                >
+                  {segment.speaker && <span className="text-slate-500">{segment.speaker}: </span>}
+                  {segment.text}
+                </button>
+                <div className="flex gap-2">
+                  <select
+                    value={segment.override?.language || ''}
+                    onChange={(e) => updateOverride(segment, { language: e.target.value })}
+                    disabled={disabled}
+                    className={`flex-1 min-w-0 ${selectClass}`}
+                  >
+                    <option value="">{segment.detected
+                      ? `Detected: ${languageName(segment.detected)}`
+                      : segment.override?.language ? 'Auto' : `Auto: ${languageName(segment.language)}`}</option>
+                    {LANGUAGES.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+                  </select>
+                  <select
+                    value={segment.override?.voiceId || ''}
+                    onChange={(e) => updateOverride(segment, { voiceId: e.target.value })}
+                    disabled={disabled}
+                    className={`flex-1 min-w-0 ${selectClass} ${segment.routed && !segment.override?.voiceId ? 'text-blue-300' : ''}`}
+                  >
+                    <option value="">{segment.override?.voiceId ? 'Auto' : `${segment.routed ? '→ ' : ''}${voiceName(segment.voiceId)}`}</option>
+                    {available.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+                  </select>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LanguagePanel;
@@ -0,0 +1,235 @@
+import React, { useRef, useState } from 'react';
+import { Lexicon, LexiconEntry } from '../types';
+import {
+  createLexicon,
+  deleteLexicon,
+  exportLexiconCsv,
+  exportLexiconJson,
+  getLexiconFileName,
+  LexiconImportResult,
+  listLexicons,
+  parseLexiconFile,
+  saveLexicon,
+} from '../services/lexiconService';
+import { downloadBlob } from '../utils/download';
+
+interface LexiconPanelProps {
+  lexicons: Lexicon[];
+  enabledIds: string[];
+  /** Called with the stored list after any dictionary is created, edited or deleted. */
+  onLexiconsChange: (lexicons: Lexicon[]) => void;
+  onEnabledChange: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+const EMPTY_ENTRY: LexiconEntry = { term: '', replacement: '', caseSensitive: false, wholeWord: true };
+
+const LexiconPanel: React.FC<LexiconPanelProps> = ({ lexicons, enabledIds, onLexiconsChange, onEnabledChange, disabled }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<LexiconEntry>(EMPTY_ENTRY);
+  const [issues, setIssues] = useState<LexiconImportResult['issues']>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const open = lexicons.find(l => l.id === openId) || null;
+
+  const refresh = () => onLexiconsChange(listLexicons());
+
+  const toggleEnabled = (id: string) => {
+    onEnabledChange(enabledIds.includes(id) ? enabledIds.filter(e => e !== id) : [...enabledIds, id]);
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('Name of the new dictionary:', 'Product names');
+    if (!name?.trim()) return;
+    const lexicon = createLexicon(name.trim());
+    refresh();
+    onEnabledChange([...enabledIds, lexicon.id]);
+    setOpenId(lexicon.id);
+  };
+
+  const updateEntries = (entries: LexiconEntry[]) => {
+    if (!open) return;
+    saveLexicon({ ...open, entries });
+    refresh();
+  };
+
+  const updateEntry = (index: number, patch: Partial<LexiconEntry>) => {
+    if (!open) return;
+    updateEntries(open.entries.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  const handleAddEntry = () => {
+    if (!open || !draft.term.trim() || !draft.replacement.trim()) return;
+    updateEntries([...open.entries, { ...draft, term: draft.term.trim(), replacement: draft.replacement.trim() }]);
+    setDraft({ ...EMPTY_ENTRY, caseSensitive: draft.caseSensitive, wholeWord: draft.wholeWord });
+  };
+
+  const handleRename = () => {
+    if (!open) return;
+    const name = window.prompt('Rename dictionary:', open.name);
+    if (!name?.trim()) return;
+    saveLexicon({ ...open, name: name.trim() });
+    refresh();
+  };
+
+  const handleDelete = () => {
+    if (!open || !window.confirm(`Delete the dictionary "${open.name}" and its ${open.entries.length} entries?`)) return;
+    deleteLexicon(open.id);
+    onEnabledChange(enabledIds.filter(id => id !== open.id));
+    refresh();
+    setOpenId(null);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseLexiconFile(await file.text(), file.name);
+    setIssues(result.issues);
+    if (result.entries.length === 0) return;
+    const lexicon = createLexicon(result.name, result.entries);
+    refresh();
+    onEnabledChange([...enabledIds, lexicon.id]);
+    setOpenId(lexicon.id);
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (!open) return;
+    const blob = format === 'json'
+      ? new Blob([exportLexiconJson(open)], { type: 'application/json' })
+      : new Blob([exportLexiconCsv(open)], { type: 'text/csv' });
+    downloadBlob(blob, getLexiconFileName(open, format));
+  };
+
+  const toggleClass = (on: boolean) => `px-1.5 py-0.5 rounded font-mono text-[10px] border transition-colors ${
+    on ? 'bg-blue-600/30 border-blue-500/50 text-blue-200' : 'bg-slate-900 border-slate-700 text-slate-500 hover:text-slate-300'
+  }`;
+  const inputClass = 'min-w-0 flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500';
+
+  const renderOptions = (entry: LexiconEntry, onPatch: (patch: Partial<LexiconEntry>) => void) => (
+    <>
+      <button onClick={() => onPatch({ caseSensitive: !entry.caseSensitive })} disabled={disabled} className={toggleClass(entry.caseSensitive)} title="Case-sensitive">
+        Aa
+      </button>
+      <button onClick={() => onPatch({ wholeWord: !entry.wholeWord })} disabled={disabled} className={toggleClass(entry.wholeWord)} title="Whole word only">
+        ab
+      </button>
+    </>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-semibold text-slate-400 uppercase tracking-wider">
+          Pronunciation
+        </label>
+        <div className="flex gap-3">
+          <input ref={fileInputRef} type="file" accept=".json,.csv" onChange={handleImport} className="hidden" />
+          <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40">
+            Import
+          </button>
+          <button onClick={handleCreate} disabled={disabled} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40">
+            New
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2 bg-slate-800/40 border border-slate-700/50 p-4 rounded-xl">
+        {lexicons.length === 0 && (
+          <p className="text-xs text-slate-500">
+            No dictionaries yet. Map product names and acronyms to a respelling, e.g. <span className="font-mono text-slate-400">SQL → sequel</span>.
+          </p>
+        )}
+
+        {lexicons.map(lexicon => (
+          <div key={lexicon.id} className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={enabledIds.includes(lexicon.id)}
+              onChange={() => toggleEnabled(lexicon.id)}
+              disabled={disabled}
+              className="accent-blue-500"
+              title="Apply to this script"
+            />
+            <button
+              onClick={() => setOpenId(openId === lexicon.id ? null : lexicon.id)}
+              className={`flex-1 text-left truncate ${openId === lexicon.id ? 'text-blue-300' : 'text-slate-300 hover:text-white'}`}
+            >
+              {lexicon.name}
+            </button>
+            <span className="text-xs text-slate-500 font-mono">{lexicon.entries.length}</span>
+          </div>
+        ))}
+
+        {issues.length > 0 && (
+          <ul className="space-y-1 text-xs text-yellow-400 font-mono">
+            {issues.slice(0, 5).map((issue, i) => (
+              <li key={`${issue.lineNumber}-${i}`}>Entry {issue.lineNumber} skipped: {issue.message}</li>
+            ))}
+            {issues.length > 5 && <li>…and {issues.length - 5} more</li>}
+          </ul>
+        )}
+
+        {open && (
+          <div className="pt-3 mt-1 border-t border-slate-700/50 space-y-1.5">
+            <div className="max-h-60 overflow-y-auto scrollbar-thin space-y-1.5">
+              {open.entries.map((entry, index) => (
+                <div key={index} className="flex items-center gap-1.5">
+                  <input value={entry.term} onChange={(e) => updateEntry(index, { term: e.target.value })} disabled={disabled} className={inputClass} />
+                  <span className="text-slate-600 text-xs">→</span>
+                  <input value={entry.replacement} onChange={(e) => updateEntry(index, { replacement: e.target.value })} disabled={disabled} className={inputClass} />
+                  {renderOptions(entry, patch => updateEntry(index, patch))}
+                  <button
+                    onClick={() => updateEntries(open.entries.filter((_, i) => i !== index))}
+                    disabled={disabled}
+                    className="text-xs text-slate-500 hover:text-red-400"
+                    title="Remove"
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-1.5">
+              <input
+                value={draft.term}
+                onChange={(e) => setDraft({ ...draft, term: e.target.value })}
+                placeholder="Term"
+                disabled={disabled}
+                className={inputClass}
+              />
+              <span className="text-slate-600 text-xs">→</span>
+              <input
+                value={draft.replacement}
+                onChange={(e) => setDraft({ ...draft, replacement: e.target.value })}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddEntry()}
+                placeholder="Say it as"
+                disabled={disabled}
+                className={inputClass}
+              />
+              {renderOptions(draft, patch => setDraft({ ...draft, ...patch }))}
+              <button
+                onClick={handleAddEntry}
+                disabled={disabled || !draft.term.trim() || !draft.replacement.trim()}
+                className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-40"
+                title="Add entry"
+              >
+                +
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-3 pt-1 text-xs">
+              <button onClick={() => handleExport('json')} className="text-slate-400 hover:text-white">Export JSON</button>
+              <button onClick={() => handleExport('csv')} className="text-slate-400 hover:text-white">Export CSV</button>
+              <button onClick={handleRename} disabled={disabled} className="text-slate-400 hover:text-white disabled:opacity-40">Rename</button>
+              <button onClick={handleDelete} disabled={disabled} className="text-slate-500 hover:text-red-400 disabled:opacity-40 ml-auto">Delete</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LexiconPanel;
@@ -0,0 +1,44 @@
+import React, { useMemo, useState } from 'react';
+import { LexiconEntry } from '../types';
+import { findLexiconMatches } from '../services/lexiconService';
+
+interface LexiconPreviewProps {
+  text: string;
+  entries: LexiconEntry[];
+}
+
+/** The script as the voices will receive it, with every respelling highlighted. */
+const LexiconPreview: React.FC<LexiconPreviewProps> = ({ text, entries }) => {
+  const [expanded, setExpanded] = useState<boolean>(false);
+  const matches = useMemo(() => findLexiconMatches(text, entries), [text, entries]);
+
+  if (matches.length === 0) return null;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  matches.forEach((match, i) => {
+    parts.push(text.slice(cursor, match.start));
+    parts.push(
+      <mark key={i} className="bg-blue-500/20 text-blue-200 rounded px-0.5" title={`Replaces "${text.slice(match.start, match.end)}"`}>
+        {match.entry.replacement}
+      </mark>
+    );
+    cursor = match.end;
+  });
+  parts.push(text.slice(cursor));
+
+  return (
+    <div className="mt-3">
+      <button onClick={() => setExpanded(!expanded)} className="text-xs text-blue-400 hover:text-blue-300">
+        {expanded ? 'Hide' : 'Preview'} pronunciation ({matches.length} {matches.length === 1 ? 'replacement' : 'replacements'})
+      </button>
+      {expanded && (
+        <div className="mt-2 max-h-64 overflow-y-auto scrollbar-thin whitespace-pre-wrap bg-slate-900/50 border border-slate-700 rounded-xl p-4 text-sm leading-relaxed text-slate-300">
+          {parts}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LexiconPreview;
@@ -0,0 +1,252 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportSettings, GeneratedAudio, PostProcessSettings, SubtitleSettings } from '../types';
+import { SUBTITLE_LINE_LENGTHS } from '../constants';
+import { describeExportSettings, exportAudio, getExportFileName } from '../services/exportService';
+import { exportSubtitles, loadSubtitleSettings, saveSubtitleSettings, SubtitleFormat } from '../services/subtitleService';
+import { findTimingAt, TimingPosition } from '../services/timingService';
+import { loadPostProcessSettings, MusicBed, postProcessAudio, savePostProcessSettings } from '../services/postProcessService';
+import { downloadBlob } from '../utils/download';
+import { useAudioUrl } from '../hooks/useAudioUrl';
+import PostProcessPanel from './PostProcessPanel';
+
+interface OutputPlayerProps {
+  audio: GeneratedAudio;
+  targetDuration?: number; // minutes
+  exportSettings: ExportSettings;
+  /** Called whenever playback moves to another word (null when stopped or between sentences). */
+  onPositionChange?: (position: TimingPosition | null) => void;
+}
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${s.toString().padStart(2, '0')}`;
+};
+
+const PROCESS_DEBOUNCE_MS = 300;
+
+const OutputPlayer: React.FC<OutputPlayerProps> = ({ audio: generated, targetDuration, exportSettings, onPositionChange }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [subtitleSettings, setSubtitleSettings] = useState<SubtitleSettings>(loadSubtitleSettings);
+
+  // --- Post-processing ---
+  const [postProcessSettings, setPostProcessSettings] = useState<PostProcessSettings>(loadPostProcessSettings);
+  const [music, setMusic] = useState<MusicBed | null>(null);
+  // Tagged with the audio it was made from, so a new generation never plays a stale copy
+  const [processed, setProcessed] = useState<{ source: GeneratedAudio; audio: GeneratedAudio } | null>(null);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [showOriginal, setShowOriginal] = useState<boolean>(false);
+
+  // Re-run the chain once settings settle; the previous copy keeps playing meanwhile
+  useEffect(() => {
+    if (!postProcessSettings.enabled) {
+      setProcessed(null);
+      setIsProcessing(false);
+      return;
+    }
+    setIsProcessing(true);
+    const timer = setTimeout(() => {
+      try {
+        setProcessed({ source: generated, audio: postProcessAudio(generated, postProcessSettings, music ?? undefined) });
+      } catch (err) {
+        console.error(err);
+      } finally {
+        setIsProcessing(false);
+      }
+    }, PROCESS_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [generated, postProcessSettings, music]);
+
+  const processedAudio = processed?.source === generated ? processed.audio : null;
+  // What plays and exports: the processed copy unless the original was picked for comparison
+  const audio = postProcessSettings.enabled && processedAudio && !showOriginal ? processedAudio : generated;
+  const wavUrl = useAudioUrl(audio);
+
+  const handlePostProcessChange = (settings: PostProcessSettings) => {
+    setPostProcessSettings(settings);
+    savePostProcessSettings(settings);
+  };
+
+  // timeupdate only fires about four times a second, too coarse for words; poll every frame while playing
+  useEffect(() => {
+    const element = audioRef.current;
+    const timing = audio.timing;
+    if (!element || !timing || !onPositionChange) return;
+    let frame = 0;
+    let current: TimingPosition | null = null;
+
+    const report = () => {
+      const position = element.paused && element.currentTime === 0 ? null : findTimingAt(timing, element.currentTime);
+      if (position?.word !== current?.word || position?.sentence !== current?.sentence) {
+        current = position;
+        onPositionChange(position);
+      }
+    };
+    const tick = () => {
+      report();
+      frame = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      cancelAnimationFrame(frame);
+      tick();
+    };
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      report();
+    };
+    const end = () => {
+      cancelAnimationFrame(frame);
+      current = null;
+      onPositionChange(null);
+    };
+
+    element.addEventListener('play', start);
+    element.addEventListener('pause', stop);
+    element.addEventListener('seeked', report);
+    element.addEventListener('ended', end);
+    return () => {
+      cancelAnimationFrame(frame);
+      element.removeEventListener('play', start);
+      element.removeEventListener('pause', stop);
+      element.removeEventListener('seeked', report);
+      element.removeEventListener('ended', end);
+      onPositionChange(null);
+    };
+  }, [audio, onPositionChange]);
+
+  const handleSubtitleSettingsChange = (patch: Partial<SubtitleSettings>) => {
+    const settings = { ...subtitleSettings, ...patch };
+    setSubtitleSettings(settings);
+    saveSubtitleSettings(settings);
+  };
+
+  const handleSubtitleExport = (format: SubtitleFormat) => {
+    if (!audio.timing) return;
+    downloadBlob(exportSubtitles(audio.timing, format, subtitleSettings), `gemini-tts-${audio.meta?.createdAt ?? Date.now()}.${format}`);
+  };
+  // Prefer the target the audio was actually fitted to; the input may have changed since
+  const targetSeconds = audio.fit?.targetSeconds ?? (targetDuration ? targetDuration * 60 : undefined);
+  const deviation = targetSeconds ? ((audio.durationSeconds - targetSeconds) / targetSeconds) * 100 : 0;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await exportAudio(audio, exportSettings);
+      downloadBlob(blob, getExportFileName(exportSettings, audio.meta?.createdAt));
+    } catch (err) {
+      console.error(err);
+      setExportError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 p-6 bg-slate-800/40 border border-slate-700/50 rounded-xl animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-slate-300 uppercase tracking-wider">Output</h3>
+        <div className="flex items-center gap-3 text-xs font-mono text-slate-400">
+          {audio.fromCache && (
+            <span className="text-teal-400" title="Served from the audio cache; no quota was used">Cached</span>
+          )}
+          <span>Duration: {formatDuration(audio.durationSeconds)}</span>
+          {audio.fit && Math.abs(audio.fit.stretchFactor - 1) > 0.001 && (
+            <span title="Time-stretched without changing pitch">
+              (×{audio.fit.stretchFactor.toFixed(2)} from {formatDuration(audio.fit.originalSeconds)})
+            </span>
+          )}
+          {targetSeconds && (
+            <span className={Math.abs(deviation) <= 5 ? 'text-green-400' : 'text-yellow-400'}>
+              Target: {formatDuration(targetSeconds)} ({deviation >= 0 ? '+' : ''}{deviation.toFixed(1)}%)
+            </span>
+          )}
+        </div>
+      </div>
+
+      <audio ref={audioRef} controls src={wavUrl} className="w-full mb-4" />
+
+      <PostProcessPanel
+        settings={postProcessSettings}
+        onChange={handlePostProcessChange}
+        music={music}
+        onMusicChange={setMusic}
+        sampleRate={generated.sampleRate}
+        report={processedAudio?.postProcess}
+        isProcessing={isProcessing}
+        showOriginal={showOriginal}
+        onShowOriginalChange={setShowOriginal}
+      />
+
+      {audio.segments && audio.segments.length > 0 && (
+        <div className="mb-4 max-h-48 overflow-y-auto scrollbar-thin space-y-1">
+          {audio.segments.map((segment, i) => (
+            <button
+              key={i}
+              onClick={() => {
+                if (!audioRef.current) return;
+                audioRef.current.currentTime = segment.startSeconds;
+                audioRef.current.play();
+              }}
+              className="w-full flex items-center gap-3 text-left text-xs px-2 py-1 rounded hover:bg-slate-700/50 transition-colors"
+            >
+              <span className="font-mono text-slate-500 w-24 shrink-0">
+                {formatDuration(segment.startSeconds)}–{formatDuration(segment.endSeconds)}
+              </span>
+              <span className="font-semibold text-slate-300">{segment.speaker}</span>
+              <span className="text-slate-500 ml-auto">line {segment.lineNumber}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {audio.timing && audio.timing.sentences.length > 0 && (
+        <div className="flex flex-wrap items-center justify-end gap-3 mb-3 text-xs text-slate-400">
+          <span>Subtitles</span>
+          <select
+            value={subtitleSettings.maxLineChars}
+            onChange={(e) => handleSubtitleSettingsChange({ maxLineChars: Number(e.target.value) })}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:outline-none focus:border-blue-500"
+            title="Maximum characters per line"
+          >
+            {SUBTITLE_LINE_LENGTHS.map(length => <option key={length} value={length}>{length} chars/line</option>)}
+          </select>
+          <select
+            value={subtitleSettings.maxLines}
+            onChange={(e) => handleSubtitleSettingsChange({ maxLines: Number(e.target.value) })}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:outline-none focus:border-blue-500"
+          >
+            <option value={1}>1 line</option>
+            <option value={2}>2 lines</option>
+          </select>
+          <button onClick={() => handleSubtitleExport('srt')} className="text-slate-300 hover:text-white">SRT</button>
+          <button onClick={() => handleSubtitleExport('vtt')} className="text-slate-300 hover:text-white">WebVTT</button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-4">
+        {exportError && <span className="text-xs text-red-400 mr-auto">{exportError}</span>}
+        {exportSettings.format !== 'wav' && (
+          <a href={wavUrl} download={`gemini-tts-${audio.meta?.createdAt ?? Date.now()}.wav`} className="text-xs text-slate-400 hover:text-slate-200">
+            Original WAV ({audio.sampleRate / 1000}kHz)
+          </a>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="flex items-center gap-2 text-sm font-medium bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-white px-4 py-2 rounded-lg transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-4 h-4">
+            <path fillRule="evenodd" d="M12 2.25a.75.75 0 0 1 .75.75v11.69l3.22-3.22a.75.75 0 1 1 1.06 1.06l-4.5 4.5a.75.75 0 0 1-1.06 0l-4.5-4.5a.75.75 0 1 1 1.06-1.06l3.22 3.22V3a.75.75 0 0 1 .75-.75Zm-9 13.5a.75.75 0 0 1 .75.75v2.25a1.5 1.5 0 0 0 1.5 1.5h13.5a1.5 1.5 0 0 0 1.5-1.5V16.5a.75.75 0 0 1 1.5 0v2.25a3 3 0 0 1-3 3H5.25a3 3 0 0 1-3-3V16.5a.75.75 0 0 1 .75-.75Z" clipRule="evenodd" />
+          </svg>
+          {isExporting ? 'Encoding…' : `Download ${describeExportSettings(exportSettings)}`}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default OutputPlayer;
@@ -0,0 +1,137 @@
+import React, { useRef, useState } from 'react';
+import { PostProcessReport, PostProcessSettings } from '../types';
+import { DUCKING_OPTIONS_DB, FADE_OPTIONS_MS, MAX_PAUSE_OPTIONS_MS, MUSIC_LEVEL_OPTIONS_DB, TARGET_LUFS } from '../constants';
+import { decodeMusicFile, MusicBed } from '../services/postProcessService';
+
+interface PostProcessPanelProps {
+  settings: PostProcessSettings;
+  onChange: (settings: PostProcessSettings) => void;
+  music: MusicBed | null;
+  onMusicChange: (music: MusicBed | null) => void;
+  /** Rate the music bed is decoded at: the speech's. */
+  sampleRate: number;
+  report?: PostProcessReport;
+  isProcessing: boolean;
+  showOriginal: boolean;
+  onShowOriginalChange: (showOriginal: boolean) => void;
+}
+
+const selectClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-300 focus:outline-none focus:border-blue-500';
+
+const formatLufs = (lufs: number) => (Number.isFinite(lufs) ? lufs.toFixed(1) : '−∞');
+
+const PostProcessPanel: React.FC<PostProcessPanelProps> = ({
+  settings,
+  onChange,
+  music,
+  onMusicChange,
+  sampleRate,
+  report,
+  isProcessing,
+  showOriginal,
+  onShowOriginalChange,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [musicError, setMusicError] = useState<string | null>(null);
+  const update = (patch: Partial<PostProcessSettings>) => onChange({ ...settings, ...patch });
+
+  const handleMusicFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setMusicError(null);
+    try {
+      onMusicChange(await decodeMusicFile(file, sampleRate));
+    } catch (err) {
+      console.error(err);
+      setMusicError(`Couldn't read "${file.name}" as audio.`);
+    }
+  };
+
+  return (
+    <div className="mb-4 p-3 bg-slate-900/40 border border-slate-700/50 rounded-lg text-xs text-slate-400 space-y-3">
+      <div className="flex items-center justify-between gap-3">
+        <label className="flex items-center gap-2 font-semibold text-slate-300">
+          <input type="checkbox" checked={settings.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+          Post-processing
+        </label>
+        {settings.enabled && (
+          <div className="flex items-center gap-3">
+            {isProcessing ? (
+              <span className="text-slate-500">Processing…</span>
+            ) : report && (
+              <span className="font-mono" title="Integrated loudness before and after">
+                {formatLufs(report.inputLufs)} → {formatLufs(report.outputLufs)} LUFS
+                {report.removedSeconds >= 0.05 && ` · ${report.removedSeconds.toFixed(1)}s of silence removed`}
+              </span>
+            )}
+            <div className="flex rounded overflow-hidden border border-slate-700">
+              {[false, true].map(original => (
+                <button
+                  key={String(original)}
+                  onClick={() => onShowOriginalChange(original)}
+                  className={`px-2 py-0.5 ${showOriginal === original ? 'bg-slate-700 text-white' : 'hover:text-slate-200'}`}
+                >
+                  {original ? 'Original' : 'Processed'}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {settings.enabled && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={settings.normalize} onChange={(e) => update({ normalize: e.target.checked })} />
+            Normalize to {TARGET_LUFS} LUFS
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="checkbox" checked={settings.trimSilence} onChange={(e) => update({ trimSilence: e.target.checked })} />
+            Trim silence
+          </label>
+          <label className="flex items-center gap-1.5">
+            Pauses
+            <select value={settings.maxPauseMs} onChange={(e) => update({ maxPauseMs: Number(e.target.value) })} className={selectClass}>
+              {MAX_PAUSE_OPTIONS_MS.map(ms => <option key={ms} value={ms}>{ms === 0 ? 'as generated' : `max ${ms / 1000}s`}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5">
+            Fade in
+            <select value={settings.fadeInMs} onChange={(e) => update({ fadeInMs: Number(e.target.value) })} className={selectClass}>
+              {FADE_OPTIONS_MS.map(ms => <option key={ms} value={ms}>{ms === 0 ? 'none' : `${ms} ms`}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1.5">
+            out
+            <select value={settings.fadeOutMs} onChange={(e) => update({ fadeOutMs: Number(e.target.value) })} className={selectClass}>
+              {FADE_OPTIONS_MS.map(ms => <option key={ms} value={ms}>{ms === 0 ? 'none' : `${ms} ms`}</option>)}
+            </select>
+          </label>
+
+          <div className="flex items-center gap-2 basis-full">
+            <span>Music bed:</span>
+            {music ? (
+              <>
+                <span className="text-slate-300 truncate max-w-[12rem]" title={music.name}>{music.name}</span>
+                <button onClick={() => onMusicChange(null)} className="text-slate-500 hover:text-red-400" title="Remove the music bed">✕</button>
+                <select value={settings.musicLevelDb} onChange={(e) => update({ musicLevelDb: Number(e.target.value) })} className={selectClass} title="Music loudness relative to the speech">
+                  {MUSIC_LEVEL_OPTIONS_DB.map(db => <option key={db} value={db}>{db} dB</option>)}
+                </select>
+                <select value={settings.duckingDb} onChange={(e) => update({ duckingDb: Number(e.target.value) })} className={selectClass} title="Extra reduction while someone speaks">
+                  {DUCKING_OPTIONS_DB.map(db => <option key={db} value={db}>{db === 0 ? 'no ducking' : `duck ${db} dB`}</option>)}
+                </select>
+              </>
+            ) : (
+              <button onClick={() => fileInputRef.current?.click()} className="text-blue-400 hover:text-blue-300">Add music…</button>
+            )}
+            <input ref={fileInputRef} type="file" accept="audio/*" onChange={handleMusicFile} className="hidden" />
+            {musicError && <span className="text-red-400">{musicError}</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PostProcessPanel;
@@ -0,0 +1,139 @@
+import React, { useRef, useState } from 'react';
+import { Project } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../constants';
+import { AutosaveStatus } from '../hooks/useProjectAutosave';
+import { exportProjectFile, getProjectFileName, importProjectFile } from '../services/projectService';
+import { DOCUMENT_EXTENSIONS, getExtension, importDocument } from '../services/documentImport';
+import { downloadBlob } from '../utils/download';
+
+interface ProjectBarProps {
+  projects: Project[];
+  /** The open project, with the editor's current contents. */
+  project: Project;
+  status: AutosaveStatus;
+  recovered: boolean;
+  disabled?: boolean;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+  /** A document was read; `name` is its file name without the extension. */
+  onDocumentImported: (name: string, text: string) => void;
+  onProjectImported: (project: Project) => void;
+}
+
+const STATUS_LABELS: Record<AutosaveStatus, string> = {
+  saved: 'Saved',
+  pending: 'Saving…',
+  error: 'Not saved',
+};
+
+const ProjectBar: React.FC<ProjectBarProps> = ({
+  projects,
+  project,
+  status,
+  recovered,
+  disabled,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+  onDocumentImported,
+  onProjectImported,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRename = () => {
+    const name = window.prompt('Project name:', project.name)?.trim();
+    if (name) onRename(name);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete "${project.name}" and its takes? This can't be undone.`)) return;
+    onDelete();
+  };
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      downloadBlob(await exportProjectFile(project), getProjectFileName(project));
+    } catch (err) {
+      console.error(err);
+      setError('Could not export the project.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // One picker for both: a project file opens as a project, anything else is read as a document
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (getExtension(file.name) === PROJECT_FILE_EXTENSION) {
+        onProjectImported(await importProjectFile(file));
+      } else {
+        onDocumentImported(file.name.replace(/\.[^.]+$/, ''), await importDocument(file));
+      }
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : `Could not import "${file.name}".`);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const linkClass = 'text-slate-400 hover:text-white disabled:opacity-40';
+
+  return (
+    <div className="mb-8 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+      <select
+        value={project.id}
+        onChange={(e) => onSwitch(e.target.value)}
+        disabled={disabled || isBusy}
+        className="max-w-[16rem] bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm font-medium text-slate-200 focus:outline-none focus:border-blue-500"
+      >
+        {projects.map(p => <option key={p.id} value={p.id}>{p.id === project.id ? project.name : p.name}</option>)}
+      </select>
+      <span className={status === 'error' ? 'text-red-400' : 'text-slate-500'} title={status === 'error' ? 'Your edits are kept for recovery; they will be saved with the next change.' : undefined}>
+        {STATUS_LABELS[status]}
+      </span>
+      {recovered && <span className="text-yellow-400">Recovered edits that weren't saved when the page last closed.</span>}
+
+      <div className="ml-auto flex flex-wrap items-center gap-3">
+        <button onClick={onCreate} disabled={disabled || isBusy} className={linkClass}>New</button>
+        <button onClick={handleRename} disabled={isBusy} className={linkClass}>Rename</button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={disabled || isBusy}
+          className={linkClass}
+          title={`A document (${DOCUMENT_EXTENSIONS.map(ext => `.${ext}`).join(', ')}) opens as a new project, or fills this one while it's empty. A .${PROJECT_FILE_EXTENSION} file adds a teammate's project.`}
+        >
+          Import…
+        </button>
+        <button onClick={handleExport} disabled={isBusy} className={linkClass} title="The script, settings and takes in one file">
+          Export project
+        </button>
+        <button onClick={handleDelete} disabled={disabled || isBusy || projects.length < 2} className="text-slate-500 hover:text-red-400 disabled:opacity-40">
+          Delete
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={[...DOCUMENT_EXTENSIONS, PROJECT_FILE_EXTENSION].map(ext => `.${ext}`).join(',')}
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+      {error && <p className="basis-full text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ProjectBar;
@@ -0,0 +1,77 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+
+interface ReadAlongHighlightProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  text: string;
+  /** Character ranges in `text`, as [start, end). */
+  sentence: [number, number] | null;
+  word: [number, number] | null;
+}
+
+/**
+ * A textarea can't style parts of its text, so the highlight is drawn on a
+ * copy of the text laid out identically behind it (the textarea must have a
+ * translucent background and sit above this in the stacking order).
+ * Keeps the spoken word in view while playback runs.
+ */
+const ReadAlongHighlight: React.FC<ReadAlongHighlightProps> = ({ textareaRef, text, sentence, word }) => {
+  const wordRef = useRef<HTMLElement>(null);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [scrollbarWidth, setScrollbarWidth] = useState<number>(0);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const sync = () => {
+      setScrollTop(textarea.scrollTop);
+      // The textarea's own scrollbar narrows its text; the copy has to wrap at the same width
+      setScrollbarWidth(textarea.offsetWidth - textarea.clientWidth - 2); // 2: the 1px borders
+    };
+    sync();
+    textarea.addEventListener('scroll', sync);
+    window.addEventListener('resize', sync);
+    return () => {
+      textarea.removeEventListener('scroll', sync);
+      window.removeEventListener('resize', sync);
+    };
+  }, [textareaRef, text]);
+
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    const mark = wordRef.current;
+    if (!textarea || !mark) return;
+    const top = mark.offsetTop;
+    if (top < textarea.scrollTop || top + mark.offsetHeight > textarea.scrollTop + textarea.clientHeight) {
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+    }
+  }, [word, textareaRef]);
+
+  if (!sentence) return null;
+
+  const [sentenceStart, sentenceEnd] = sentence;
+  const [wordStart, wordEnd] = word && word[0] >= sentenceStart && word[1] <= sentenceEnd ? word : [sentenceStart, sentenceStart];
+
+  return (
+    <div
+      aria-hidden
+      className="absolute inset-0 overflow-hidden rounded-xl border border-transparent pointer-events-none"
+    >
+      <div
+        style={{ transform: `translateY(${-scrollTop}px)`, paddingRight: 24 + Math.max(0, scrollbarWidth) }}
+        className="relative p-6 text-base leading-relaxed text-start [unicode-bidi:plaintext] whitespace-pre-wrap break-words text-transparent"
+      >
+        {text.slice(0, sentenceStart)}
+        <span className="bg-blue-500/15 rounded">
+          {text.slice(sentenceStart, wordStart)}
+          <mark ref={wordRef} className="bg-blue-500/40 text-transparent rounded">{text.slice(wordStart, wordEnd)}</mark>
+          {text.slice(wordEnd, sentenceEnd)}
+        </span>
+        {text.slice(sentenceEnd)}
+        {/* A trailing newline would otherwise collapse and shift the last line */}
+        {'\u200b'}
+      </div>
+    </div>
+  );
+};
+
+export default ReadAlongHighlight;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { VoiceOption } from '../types';
+import VoiceSelector from './VoiceSelector';
+
+interface SpeakerVoiceMapProps {
+  speakers: string[];
+  voices: VoiceOption[];
+  speakerVoices: Record<string, string>;
+  onChange: (speaker: string, voiceId: string) => void;
+  supportedVoiceIds?: string[];
+}
+
+const SpeakerVoiceMap: React.FC<SpeakerVoiceMapProps> = ({ speakers, voices, speakerVoices, onChange, supportedVoiceIds }) => {
+  return (
+    <div>
+      <label className="block text-sm font-semibold text-slate-400 uppercase tracking-wider mb-4">
+        Speakers
+      </label>
+      {speakers.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Write lines as <span className="font-mono text-slate-400">Speaker: text</span> and each speaker will appear here.
+        </p>
+      ) : (
+        <div className="space-y-3 bg-slate-800/40 border border-slate-700/50 p-4 rounded-xl">
+          {speakers.map((speaker) => (
+            <VoiceSelector
+              key={speaker}
+              variant="dropdown"
+              label={speaker}
+              voices={voices}
+              selectedVoice={speakerVoices[speaker]}
+              onSelect={(voiceId) => onChange(speaker, voiceId)}
+              supportedVoiceIds={supportedVoiceIds}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerVoiceMap;
@@ -0,0 +1,185 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ApiKeyEntry } from '../types';
+import { USAGE_CHART_DAYS, USAGE_CHART_WEEKS } from '../constants';
+import {
+  addCounters,
+  bucketUsage,
+  countErrors,
+  emptyCounters,
+  estimateCost,
+  listUsage,
+  subscribeToUsage,
+  toDayKey,
+  UsageBucket,
+  UsageCounters,
+  UsagePeriod,
+  usageToCsv,
+} from '../services/usageStats';
+import { downloadBlob } from '../utils/download';
+import ApiKeyManager from './ApiKeyManager';
+
+interface UsageDashboardProps {
+  keys: ApiKeyEntry[];
+  activeKeyId?: string;
+}
+
+type Metric = 'requests' | 'characters' | 'audio' | 'errors' | 'cost';
+
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 1 ? 3 : 2)}`;
+
+const METRICS: { value: Metric; label: string; read: (bucket: UsageBucket) => number; format: (value: number) => string }[] = [
+  { value: 'requests', label: 'Requests', read: b => b.counters.requests, format: v => String(v) },
+  { value: 'characters', label: 'Characters', read: b => b.counters.characters, format: v => v.toLocaleString() },
+  { value: 'audio', label: 'Audio minutes', read: b => b.counters.audioSeconds / 60, format: v => v.toFixed(1) },
+  { value: 'errors', label: 'Errors', read: b => countErrors(b.counters), format: v => String(v) },
+  { value: 'cost', label: 'Estimated cost', read: b => b.cost, format: formatCost },
+];
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ keys, activeKeyId }) => {
+  const [records, setRecords] = useState(listUsage);
+  const [period, setPeriod] = useState<UsagePeriod>('day');
+  const [metric, setMetric] = useState<Metric>('requests');
+  const [keyFilter, setKeyFilter] = useState<string>('');
+
+  useEffect(() => subscribeToUsage(() => setRecords(listUsage())), []);
+
+  // Keys that were removed still have history, listed under their fingerprint
+  const keyIds = useMemo(() => Array.from(new Set([...keys.map(k => k.id), ...records.map(r => r.keyId)])), [keys, records]);
+  const keyName = (id: string) => keys.find(k => k.id === id)?.name ?? (id === 'offline' ? 'Offline engine' : id);
+
+  const filtered = useMemo(() => (keyFilter ? records.filter(r => r.keyId === keyFilter) : records), [records, keyFilter]);
+  const buckets = useMemo(
+    () => bucketUsage(filtered, period, period === 'day' ? USAGE_CHART_DAYS : USAGE_CHART_WEEKS),
+    [filtered, period]
+  );
+  const metricOption = METRICS.find(m => m.value === metric)!;
+  const values = buckets.map(metricOption.read);
+  const max = Math.max(...values, 0);
+
+  // Totals per model over the charted range
+  const firstDay = buckets[0]?.start ?? '';
+  const byModel = useMemo(() => {
+    const totals = new Map<string, UsageCounters>();
+    for (const record of filtered) {
+      if (record.day < firstDay) continue;
+      totals.set(record.model, addCounters(totals.get(record.model) || emptyCounters(), record));
+    }
+    return Array.from(totals, ([model, counters]) => ({ model, counters, cost: estimateCost(model, counters) }));
+  }, [filtered, firstDay]);
+
+  const today = toDayKey(Date.now());
+  const requestsToday = useMemo(() => {
+    const counts: Record<string, number> = {};
+    records.filter(r => r.day === today).forEach(r => { counts[r.keyId] = (counts[r.keyId] ?? 0) + r.requests; });
+    return counts;
+  }, [records, today]);
+
+  const handleExport = () => {
+    const csv = usageToCsv(filtered, keys);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `gemini-tts-usage-${today}.csv`);
+  };
+
+  const selectClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-sm text-slate-200 focus:outline-none focus:border-blue-500';
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-slate-200 mb-4">Usage &amp; keys</h2>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
+        <div className="lg:col-span-5">
+          <ApiKeyManager keys={keys} activeKeyId={activeKeyId} requestsToday={requestsToday} />
+        </div>
+
+        <div className="lg:col-span-7 space-y-4">
+          <div className="flex flex-wrap gap-2">
+            <select value={metric} onChange={(e) => setMetric(e.target.value as Metric)} className={selectClass}>
+              {METRICS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+            <select value={keyFilter} onChange={(e) => setKeyFilter(e.target.value)} className={`min-w-0 ${selectClass}`}>
+              <option value="">All keys</option>
+              {keyIds.map(id => <option key={id} value={id}>{keyName(id)}</option>)}
+            </select>
+            <div className="flex rounded-lg border border-slate-700 overflow-hidden">
+              {(['day', 'week'] as UsagePeriod[]).map(p => (
+                <button
+                  key={p}
+                  onClick={() => setPeriod(p)}
+                  className={`px-3 py-1 text-xs transition-colors ${period === p ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 hover:bg-slate-800'}`}
+                >
+                  {p === 'day' ? 'Daily' : 'Weekly'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={filtered.length === 0}
+              className="ml-auto text-xs font-medium bg-slate-800 hover:bg-slate-700 text-slate-300 px-3 py-1.5 rounded-lg border border-slate-700 transition-colors disabled:opacity-40"
+            >
+              Export CSV
+            </button>
+          </div>
+
+          <div className="p-4 bg-slate-800/40 border border-slate-700/50 rounded-xl">
+            <div className="flex items-end gap-1 h-32">
+              {buckets.map((bucket, i) => (
+                <div
+                  key={bucket.start}
+                  title={`${period === 'week' ? 'Week of ' : ''}${bucket.start}: ${metricOption.format(values[i])}`}
+                  className="flex-1 h-full flex items-end"
+                >
+                  <div
+                    className={`w-full rounded-t ${metric === 'errors' ? 'bg-red-500/70' : 'bg-blue-500/70'} hover:opacity-80`}
+                    style={{ height: max > 0 ? `${Math.max(values[i] > 0 ? 2 : 0, (values[i] / max) * 100)}%` : 0 }}
+                  ></div>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between mt-1 text-[10px] font-mono text-slate-500">
+              <span>{buckets[0]?.start.slice(5)}</span>
+              <span>{metricOption.label}, max {metricOption.format(max)}</span>
+              <span>{buckets[buckets.length - 1]?.start.slice(5)}</span>
+            </div>
+          </div>
+
+          {byModel.length === 0 ? (
+            <p className="text-xs text-slate-500">No requests in this range yet.</p>
+          ) : (
+            <table className="w-full text-xs text-slate-400">
+              <thead>
+                <tr className="text-left text-slate-500">
+                  <th className="font-medium py-1">Model</th>
+                  <th className="font-medium py-1 text-right">Requests</th>
+                  <th className="font-medium py-1 text-right">Characters</th>
+                  <th className="font-medium py-1 text-right">Audio</th>
+                  <th className="font-medium py-1 text-right">Errors</th>
+                  <th className="font-medium py-1 text-right">Est. cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {byModel.map(({ model, counters, cost }) => (
+                  <tr key={model} className="border-t border-slate-800">
+                    <td className="py-1.5 font-mono text-slate-300">{model}</td>
+                    <td className="py-1.5 text-right">{counters.requests}</td>
+                    <td className="py-1.5 text-right">{counters.characters.toLocaleString()}</td>
+                    <td className="py-1.5 text-right">{(counters.audioSeconds / 60).toFixed(1)} min</td>
+                    <td className="py-1.5 text-right">
+                      {countErrors(counters) === 0
+                        ? 0
+                        : Object.entries(counters.errors).map(([code, n]) => `${code.toLowerCase().replace('_', ' ')} ${n}`).join(', ')}
+                    </td>
+                    <td className="py-1.5 text-right">{formatCost(cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-[11px] text-slate-500">
+            Costs are estimates from list prices, assuming a paid-tier key; free-tier requests cost nothing. Cached audio isn't counted.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
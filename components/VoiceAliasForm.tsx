@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { SpeechPace, VoiceAlias, VoiceOption } from '../types';
+import { LANGUAGES, PACE_OPTIONS } from '../constants';
+
+interface VoiceAliasFormProps {
+  /** Prebuilt voices an alias can be based on. */
+  baseVoices: VoiceOption[];
+  /** The alias being edited; a new one is created when unset. */
+  alias?: VoiceAlias;
+  defaultBaseVoiceId: string;
+  onSave: (fields: Omit<VoiceAlias, 'id'>) => void;
+  onCancel: () => void;
+}
+
+const VoiceAliasForm: React.FC<VoiceAliasFormProps> = ({ baseVoices, alias, defaultBaseVoiceId, onSave, onCancel }) => {
+  const [name, setName] = useState<string>(alias?.name || '');
+  const [baseVoiceId, setBaseVoiceId] = useState<string>(alias?.baseVoiceId || defaultBaseVoiceId);
+  const [description, setDescription] = useState<string>(alias?.description || '');
+  const [tone, setTone] = useState<string>(alias?.delivery.tone || '');
+  const [pace, setPace] = useState<SpeechPace>(alias?.delivery.pace || 'normal');
+  const [languages, setLanguages] = useState<string[]>(alias?.languages || []);
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 placeholder-slate-600 focus:outline-none focus:border-blue-500';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      name: name.trim(),
+      baseVoiceId,
+      description: description.trim(),
+      delivery: { tone: tone.trim(), pace },
+      languages: languages.length > 0 ? languages : undefined,
+    });
+  };
+
+  const toggleLanguage = (code: string) => {
+    setLanguages(prev => (prev.includes(code) ? prev.filter(c => c !== code) : [...prev, code]));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 p-4 bg-slate-800/60 border border-blue-500/40 rounded-xl">
+      <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name, e.g. Chris (Calm)" className={inputClass} autoFocus />
+      <select value={baseVoiceId} onChange={(e) => setBaseVoiceId(e.target.value)} className={inputClass}>
+        {baseVoices.map(voice => (
+          <option key={voice.id} value={voice.id}>{voice.name} ({voice.gender}, {voice.pitch.toLowerCase()} pitch)</option>
+        ))}
+      </select>
+      <input value={tone} onChange={(e) => setTone(e.target.value)} placeholder="Tone, e.g. calm, steady and relaxing" className={inputClass} />
+      <select value={pace} onChange={(e) => setPace(e.target.value as SpeechPace)} className={inputClass}>
+        {PACE_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label} pace</option>)}
+      </select>
+      <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description (optional)" className={inputClass} />
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-400" title="Text in other languages is routed to another voice. None ticked: the base voice's languages.">
+        <span className="text-slate-500">Reads</span>
+        {LANGUAGES.map(language => (
+          <label key={language.code} className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={languages.includes(language.code)} onChange={() => toggleLanguage(language.code)} className="accent-blue-500" />
+            {language.name}
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-end gap-3 pt-1">
+        <button type="button" onClick={onCancel} className="text-xs text-slate-400 hover:text-white">Cancel</button>
+        <button type="submit" disabled={!name.trim()} className="text-xs font-medium bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white px-3 py-1.5 rounded-lg">
+          {alias ? 'Save alias' : 'Create alias'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default VoiceAliasForm;
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { VoiceAlias, VoiceOption, VoicePitch } from '../types';
+import { PREBUILT_VOICES, deleteAlias, filterVoices, isBuiltInAlias, listAliases, saveAlias } from '../services/voiceCatalog';
+import { getLanguage } from '../services/languageService';
+import { useVoiceAudition } from '../hooks/useVoiceAudition';
+import VoiceAliasForm from './VoiceAliasForm';
+
+interface VoiceSelectorProps {
+  voices: VoiceOption[];
+  selectedVoice: string;
+  onSelect: (voiceId: string) => void;
+  /** Ids the active provider can synthesize; other voices are shown disabled. */
+  supportedVoiceIds?: string[];
+  /** 'dropdown' renders a single compact select, e.g. one per dialogue speaker. */
+  variant?: 'cards' | 'dropdown';
+  label?: string;
+  /** Enables creating, editing and deleting aliases; called after each change. */
+  onAliasesChange?: () => void;
+}
+
+const PITCHES: VoicePitch[] = ['Low', 'Medium', 'High'];
+const NEW_ALIAS = 'new';
+
+const VoiceSelector: React.FC<VoiceSelectorProps> = ({
+  voices,
+  selectedVoice,
+  onSelect,
+  supportedVoiceIds,
+  variant = 'cards',
+  label = 'Voice',
+  onAliasesChange,
+}) => {
+  const [query, setQuery] = useState<string>('');
+  const [gender, setGender] = useState<VoiceOption['gender'] | ''>('');
+  const [pitch, setPitch] = useState<VoicePitch | ''>('');
+  // The alias being edited, NEW_ALIAS for a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const audition = useVoiceAudition();
+
+  if (variant === 'dropdown') {
+    return (
+      <label className="flex items-center justify-between gap-3 text-sm">
+        <span className="font-medium text-slate-300 truncate">{label}</span>
+        <select
+          value={selectedVoice}
+          onChange={(e) => onSelect(e.target.value)}
+          className="w-40 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+        >
+          {voices.map((voice) => (
+            <option
+              key={voice.id}
+              value={voice.id}
+              disabled={!!supportedVoiceIds && !supportedVoiceIds.includes(voice.id)}
+            >
+              {voice.name} ({voice.gender})
+            </option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+
+  const filtered = filterVoices(voices, { query, gender: gender || undefined, pitch: pitch || undefined });
+  const editingAlias = editingId ? listAliases().find(alias => alias.id === editingId) : undefined;
+  const filterClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+  const handleSaveAlias = (fields: Omit<VoiceAlias, 'id'>) => {
+    const alias = saveAlias(fields, editingId === NEW_ALIAS ? undefined : editingId || undefined);
+    setEditingId(null);
+    onAliasesChange?.();
+    onSelect(alias.id);
+  };
+
+  const handleDeleteAlias = (voice: VoiceOption) => {
+    if (!window.confirm(`Delete the voice "${voice.name}"?`)) return;
+    deleteAlias(voice.id);
+    onAliasesChange?.();
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <label className="block text-sm font-semibold text-slate-400 uppercase tracking-wider">
+          {label}
+        </label>
+        {onAliasesChange && (
+          <button onClick={() => setEditingId(NEW_ALIAS)} className="text-xs text-blue-400 hover:text-blue-300">
+            + New alias
+          </button>
+        )}
+      </div>
+
+      {editingId && (
+        <div className="mb-3">
+          <VoiceAliasForm
+            key={editingId}
+            baseVoices={PREBUILT_VOICES}
+            alias={editingAlias}
+            defaultBaseVoiceId={voices.find(v => v.id === selectedVoice)?.realVoiceId || PREBUILT_VOICES[0].id}
+            onSave={handleSaveAlias}
+            onCancel={() => setEditingId(null)}
+          />
+        </div>
+      )}
+
+      <div className="space-y-2 mb-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search voices, e.g. warm narration"
+          className={`w-full ${filterClass} py-2 text-sm placeholder-slate-600`}
+        />
+        <div className="flex gap-2">
+          <select value={gender} onChange={(e) => setGender(e.target.value as VoiceOption['gender'] | '')} className={`flex-1 ${filterClass}`}>
+            <option value="">Any gender</option>
+            <option value="Female">Female</option>
+            <option value="Male">Male</option>
+          </select>
+          <select value={pitch} onChange={(e) => setPitch(e.target.value as VoicePitch | '')} className={`flex-1 ${filterClass}`}>
+            <option value="">Any pitch</option>
+            {PITCHES.map(p => <option key={p} value={p}>{p} pitch</option>)}
+          </select>
+        </div>
+      </div>
+
+      {audition.error && <p className="text-xs text-red-400 mb-2">Audition failed: {audition.error}</p>}
+
+      <div className="space-y-2 max-h-[420px] overflow-y-auto pr-1">
+        {filtered.length === 0 && <p className="text-xs text-slate-500 py-4 text-center">No voices match.</p>}
+        {filtered.map((voice) => {
+          const isSelected = voice.id === selectedVoice;
+          const isSupported = !supportedVoiceIds || supportedVoiceIds.includes(voice.id);
+          const isAlias = voice.id !== voice.realVoiceId;
+          const isPlaying = audition.playingId === voice.id;
+          const isLoading = audition.loadingId === voice.id;
+          return (
+            <div key={voice.id} className="relative">
+              <button
+                onClick={() => onSelect(voice.id)}
+                disabled={!isSupported}
+                title={isSupported ? undefined : 'Not available with the current engine'}
+                className={`w-full text-left p-3 pr-12 rounded-xl border transition-all ${
+                  !isSupported
+                    ? 'opacity-40 cursor-not-allowed bg-slate-800/20 border-slate-800'
+                    : isSelected
+                    ? 'bg-blue-500/10 border-blue-500 shadow-lg shadow-blue-500/10'
+                    : 'bg-slate-800/40 border-slate-700/50 hover:border-slate-600'
+                }`}
+              >
+                <div className="flex items-center gap-2 mb-1">
+                  <span className={`font-semibold truncate ${isSelected ? 'text-blue-300' : 'text-slate-200'}`}>
+                    {voice.name}
+                  </span>
+                  <span className={`text-[10px] px-2 py-0.5 rounded-full ${
+                    voice.gender === 'Female' ? 'bg-pink-500/10 text-pink-300' : 'bg-sky-500/10 text-sky-300'
+                  }`}>
+                    {voice.gender}
+                  </span>
+                  <span className="text-[10px] text-slate-500">{voice.pitch} · {voice.accent}</span>
+                </div>
+                <p className="text-xs text-slate-400">
+                  {isAlias && <span className="text-slate-500">Alias of {voice.realVoiceId}. </span>}
+                  {voice.description}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1.5">
+                  {voice.languages.map(code => (
+                    <span key={code} title={getLanguage(code)?.name} className="text-[10px] px-1.5 py-0.5 rounded bg-blue-500/10 text-blue-300 uppercase">{code}</span>
+                  ))}
+                  {voice.tags.filter(tag => tag !== 'alias').map(tag => (
+                    <span key={tag} className="text-[10px] px-1.5 py-0.5 rounded bg-slate-700/50 text-slate-400">{tag}</span>
+                  ))}
+                </div>
+              </button>
+              <div className="absolute top-2.5 right-2.5 flex flex-col items-end gap-1">
+                <button
+                  onClick={() => audition.toggle(voice)}
+                  disabled={!isSupported || isLoading}
+                  title={isPlaying ? 'Stop' : 'Play a sample'}
+                  className="w-7 h-7 rounded-full bg-slate-700/70 hover:bg-slate-600 disabled:opacity-40 text-slate-200 text-xs flex items-center justify-center"
+                >
+                  {isLoading ? '…' : isPlaying ? '■' : '▶'}
+                </button>
+                {onAliasesChange && isAlias && !isBuiltInAlias(voice.id) && (
+                  <div className="flex gap-1.5 text-[10px]">
+                    <button onClick={() => setEditingId(voice.id)} className="text-slate-400 hover:text-white">Edit</button>
+                    <button onClick={() => handleDeleteAlias(voice)} className="text-slate-500 hover:text-red-400">✕</button>
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceSelector;
@@ -1,32 +1,108 @@
-import { VoiceOption } from "./types";
-
-export const VOICES: VoiceOption[] = [
-  {
-    id: "Aoede",
-    name: "Aoede",
-    gender: "Female",
-    description: "Experienced, professional, and confident.",
-    realVoiceId: "Aoede"
-  },
-  {
-    id: "Kore",
-    name: "Kore",
-    gender: "Female",
-    description: "Calm, reassuring, and soothing.",
-    realVoiceId: "Kore"
-  },
-  {
-    id: "Male_7",
-    name: "Charles (Formal)",
-    gender: "Male",
-    description: "Formal, precise, business-oriented.",
-    realVoiceId: "Charon"
-  },
-  {
-    id: "Male_10",
-    name: "Chris (Calm)",
-    gender: "Male",
-    description: "Steady, low-pitch, relaxing.",
-    realVoiceId: "Charon"
-  }
-];
\ No newline at end of file
+import { DeliveryPreset, LanguageOption, ModelPricing, PostProcessSettings, RateLimits, SpeechPace, SubtitleSettings } from "./types";
+
+// --- Long-form chunking ---
+export const DEFAULT_CHUNK_MAX_CHARS = 1200;
+export const CHUNK_SIZE_OPTIONS = [600, 1200, 2000, 3000];
+export const CHUNK_GAP_MS = 350;       // Silence inserted between stitched chunks
+export const CHUNK_MAX_RETRIES = 3;    // Automatic retries per chunk before giving up
+export const CHUNK_RETRY_BASE_MS = 5000; // Doubles on each retry (5s, 10s, 20s)
+
+// --- Target duration ---
+export const DEFAULT_WORDS_PER_MINUTE = 150; // Used until a voice's pace has been measured
+export const MIN_STRETCH_FACTOR = 0.8;       // Time-stretch range that still sounds natural
+export const MAX_STRETCH_FACTOR = 1.25;
+
+// --- Delivery ---
+export const PACE_OPTIONS: { value: SpeechPace; label: string; rate: number }[] = [
+  { value: "x-slow", label: "Very slow", rate: 0.75 }, // rate: speed relative to the voice's natural pace
+  { value: "slow", label: "Slow", rate: 0.88 },
+  { value: "normal", label: "Natural", rate: 1 },
+  { value: "fast", label: "Fast", rate: 1.15 },
+  { value: "x-fast", label: "Very fast", rate: 1.3 }
+];
+export const DEFAULT_PAUSE_MS = 500;  // [pause] without a duration
+export const MAX_PAUSE_MS = 10000;
+export const BUILT_IN_DELIVERY_PRESETS: DeliveryPreset[] = [
+  { id: "builtin_neutral", name: "Neutral", delivery: { tone: "", pace: "normal" } },
+  { id: "builtin_narrator", name: "Audiobook narrator", delivery: { tone: "warm, measured storytelling", pace: "slow" } },
+  { id: "builtin_news", name: "Newsreader", delivery: { tone: "clear, authoritative broadcast", pace: "normal" } },
+  { id: "builtin_cheerful", name: "Cheerful", delivery: { tone: "cheerful and upbeat", pace: "fast" } },
+  { id: "builtin_calm", name: "Calm", delivery: { tone: "calm and soothing", pace: "x-slow" } }
+];
+
+// --- Rate limits (Gemini free tier) ---
+export const DEFAULT_RATE_LIMITS: RateLimits = { rpm: 15, rpd: 1500 };
+export const MODEL_RATE_LIMITS: Record<string, RateLimits> = {
+  "gemini-2.5-flash-preview-tts": { rpm: 15, rpd: 1500 },
+  "local": { rpm: 15, rpd: 1500 } // Same as Gemini so the offline engine exercises the limiter
+};
+export const QUOTA_RESET_TIME_ZONE = "America/Los_Angeles"; // Gemini daily quotas reset at midnight PT
+
+// --- Usage & cost ---
+// Paid-tier list prices; models without an entry (the offline engine) cost nothing
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gemini-2.5-flash-preview-tts": { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+  "gemini-2.5-pro-preview-tts": { inputPerMillionTokens: 1, outputPerMillionTokens: 20 },
+};
+export const TEXT_CHARS_PER_TOKEN = 4; // Rough average for English and French prose
+export const AUDIO_TOKENS_PER_SECOND = 32;
+export const USAGE_RETENTION_DAYS = 400;
+export const USAGE_CHART_DAYS = 14;
+export const USAGE_CHART_WEEKS = 12;
+
+// --- History library ---
+export const HISTORY_MAX_ENTRIES = 200;
+export const HISTORY_MAX_BYTES = 400 * 1024 * 1024; // Oldest unpinned entries are evicted beyond this
+export const PROJECT_KEPT_TAKES = 10; // Each project's newest takes are kept like pinned ones
+
+// --- Projects ---
+export const AUTOSAVE_DELAY_MS = 1000;
+export const PROJECT_FILE_EXTENSION = "ttsproject"; // A ZIP with project.json and the takes as WAV
+
+// --- Export ---
+export const EXPORT_SAMPLE_RATES = [24000, 44100, 48000]; // 24 kHz is the native TTS rate
+export const MP3_BITRATES = [64, 96, 128, 192, 256, 320];
+export const OPUS_BITRATES = [32, 48, 64, 96, 128];
+
+// --- Audio cache ---
+export const AUDIO_CACHE_MAX_BYTES = 200 * 1024 * 1024; // Least recently used clips are evicted beyond this
+
+// --- Timing & subtitles ---
+export const MIN_ALIGNMENT_PAUSE_MS = 150; // Shorter silences are treated as part of a word
+export const SUBTITLE_LINE_LENGTHS = [32, 37, 42, 50, 60]; // 42 is the common broadcast limit
+export const DEFAULT_SUBTITLE_SETTINGS: SubtitleSettings = { maxLineChars: 42, maxLines: 2 };
+export const MIN_CUE_SECONDS = 0.8;
+export const MAX_CUE_SECONDS = 7;
+
+// --- Post-processing ---
+export const TARGET_LUFS = -16;        // EBU R128 / podcast delivery level for mono speech
+export const PEAK_CEILING_DB = -1;     // dBFS; normalization never pushes a sample above this
+export const SILENCE_THRESHOLD_DB = -50; // dBFS; quieter 10 ms frames count as silence when trimming and ducking
+export const TRIM_PADDING_MS = 150;    // Silence kept before the first and after the last word
+export const MAX_PAUSE_OPTIONS_MS = [0, 600, 800, 1200, 2000]; // 0: leave pauses alone
+export const FADE_OPTIONS_MS = [0, 20, 100, 300, 500, 1000, 2000];
+export const MUSIC_LEVEL_OPTIONS_DB = [-24, -20, -17, -14, -10];
+export const DUCKING_OPTIONS_DB = [0, -6, -9, -12, -18];
+export const DEFAULT_POST_PROCESS_SETTINGS: PostProcessSettings = {
+  enabled: false,
+  maxPauseMs: 1200,
+  trimSilence: true,
+  musicLevelDb: -14,
+  duckingDb: -12,
+  fadeInMs: 20,
+  fadeOutMs: 300,
+  normalize: true,
+};
+
+// --- Voice catalog ---
+// Auditions always use this text, so each voice's clip is synthesized once and then served from the audio cache
+export const AUDITION_TEXT = "Hi, I'm {name}. This is how I sound reading your script, from the first line to the last.";
+
+// --- Languages ---
+export const LANGUAGES: LanguageOption[] = [
+  { code: "en", name: "English", direction: "ltr" },
+  { code: "fr", name: "French", direction: "ltr" },
+  { code: "ar", name: "Arabic", direction: "rtl" },
+];
+// Used for text that is too short to detect and has nothing before it to follow
+export const DEFAULT_LANGUAGE = "en";
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { GeneratedAudio } from '../types';
+import { createWavUrl } from '../utils/audioUtils';
+
+/** A WAV object URL for `audio` while it is shown, revoked as soon as the audio changes or the component unmounts. */
+export function useAudioUrl(audio: GeneratedAudio | null): string | undefined {
+  const [url, setUrl] = useState<string | undefined>(undefined);
+
+  useEffect(() => {
+    if (!audio) {
+      setUrl(undefined);
+      return;
+    }
+    const next = createWavUrl(audio);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [audio]);
+
+  return url;
+}
@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+import { Project, ProjectWorkspace } from '../types';
+import { AUTOSAVE_DELAY_MS } from '../constants';
+import { clearRecoverySnapshot, isSameWorkspace, saveProject, writeRecoverySnapshot } from '../services/projectService';
+
+export type AutosaveStatus = 'saved' | 'pending' | 'error';
+
+/**
+ * Saves the editor into `project` once edits pause. Each edit is first kept
+ * as a recovery snapshot, so a crash before the save loses nothing.
+ * `onSaved` receives the stored project.
+ */
+export function useProjectAutosave(project: Project | null, workspace: ProjectWorkspace, onSaved: (project: Project) => void): AutosaveStatus {
+  const [status, setStatus] = useState<AutosaveStatus>('saved');
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  useEffect(() => {
+    if (!project) return;
+    if (isSameWorkspace(project.workspace, workspace)) {
+      setStatus('saved');
+      return;
+    }
+    const draft: Project = { ...project, workspace, updatedAt: Date.now() };
+    writeRecoverySnapshot(draft);
+    setStatus('pending');
+
+    const timer = setTimeout(() => {
+      saveProject(draft)
+        .then(saved => {
+          clearRecoverySnapshot(saved);
+          setStatus('saved');
+          onSavedRef.current(saved);
+        })
+        .catch(err => {
+          console.error('Autosave failed', err);
+          setStatus('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, workspace]);
+
+  return status;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { getUsage, RateScope, subscribe, UsageSnapshot } from '../services/rateLimiter';
+
+/** Live usage for a scope, refreshed every second and whenever any tab records a request. */
+export function useRateLimiter(scope: RateScope): UsageSnapshot {
+  const [snapshot, setSnapshot] = useState<UsageSnapshot>(() => getUsage(scope));
+
+  useEffect(() => {
+    const refresh = () => setSnapshot(getUsage(scope));
+    refresh();
+    const unsubscribe = subscribe(refresh);
+    const timer = setInterval(refresh, 1000);
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [scope.keyId, scope.model]);
+
+  return snapshot;
+}
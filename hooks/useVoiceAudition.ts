@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { VoiceOption } from '../types';
+import { AUDITION_TEXT } from '../constants';
+import { generateSpeech } from '../services/ttsService';
+import { toTTSError } from '../services/ttsErrors';
+import { createWavUrl } from '../utils/audioUtils';
+
+export interface VoiceAudition {
+  playingId: string | null;
+  loadingId: string | null;
+  error: string | null;
+  /** Plays the voice's sample clip, or stops it if it is already playing. */
+  toggle: (voice: VoiceOption) => void;
+}
+
+/** Sample clips for comparing voices. Only the first audition of a voice uses quota; repeats come from the audio cache. */
+export function useVoiceAudition(): VoiceAudition {
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
+  // Ignores clips that arrive after the user has moved on to another voice
+  const requestRef = useRef<string | null>(null);
+
+  const stop = () => {
+    const player = playerRef.current;
+    if (player) {
+      player.pause();
+      URL.revokeObjectURL(player.src);
+      playerRef.current = null;
+    }
+    setPlayingId(null);
+  };
+
+  useEffect(() => stop, []);
+
+  const toggle = async (voice: VoiceOption) => {
+    const wasPlaying = playingId === voice.id;
+    stop();
+    if (wasPlaying) return;
+
+    requestRef.current = voice.id;
+    setLoadingId(voice.id);
+    setError(null);
+    try {
+      const audio = await generateSpeech(AUDITION_TEXT.replace('{name}', voice.name), voice.id);
+      if (requestRef.current !== voice.id) return;
+      const player = new Audio(createWavUrl(audio));
+      player.addEventListener('ended', () => {
+        if (playerRef.current === player) stop();
+      });
+      playerRef.current = player;
+      setPlayingId(voice.id);
+      await player.play();
+    } catch (err) {
+      if (requestRef.current === voice.id) setError(toTTSError(err).message);
+    } finally {
+      if (requestRef.current === voice.id) setLoadingId(null);
+    }
+  };
+
+  return { playingId, loadingId, error, toggle };
+}
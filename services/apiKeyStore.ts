@@ -0,0 +1,123 @@
+import { ApiKeyEntry } from '../types';
+import { fnv1a } from '../utils/hash';
+
+/**
+ * Named Gemini API keys. The key from the environment (.env.local, or the
+ * one AI Studio injects) comes first and can't be removed; keys added in the
+ * app are kept in this browser's localStorage. The list order is the
+ * failover order: when the active key runs out of quota, the next one
+ * (wrapping around) takes over.
+ */
+
+const KEYS_STORAGE_KEY = 'gemini_tts_api_keys';
+const ACTIVE_STORAGE_KEY = 'gemini_tts_active_key';
+
+/** Identifies a key in usage counters and rate limits without keeping the key itself there. */
+export function getKeyFingerprint(key: string): string {
+  return `key_${fnv1a(key).toString(16).padStart(8, '0')}`;
+}
+
+function loadSavedKeys(): ApiKeyEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(KEYS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeSavedKeys(keys: ApiKeyEntry[]): void {
+  localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys));
+  notify();
+}
+
+/** The environment key, if any, then the saved keys in failover order. */
+export function listApiKeys(): ApiKeyEntry[] {
+  // Read on every call: the AI Studio key selector replaces it at runtime
+  const envKey = process.env.API_KEY;
+  const environment: ApiKeyEntry[] = envKey
+    ? [{ id: getKeyFingerprint(envKey), name: 'Environment key', key: envKey, fromEnvironment: true }]
+    : [];
+  const saved = typeof localStorage !== 'undefined' ? loadSavedKeys() : [];
+  return [...environment, ...saved.filter(entry => !environment.some(e => e.id === entry.id))];
+}
+
+export function addApiKey(name: string, key: string): ApiKeyEntry {
+  const trimmed = key.trim();
+  if (!trimmed) throw new Error('Paste the API key first.');
+  const id = getKeyFingerprint(trimmed);
+  const existing = listApiKeys().find(entry => entry.id === id);
+  if (existing) throw new Error(`This key is already saved as "${existing.name}".`);
+  const entry: ApiKeyEntry = { id, name: name.trim() || `Key ${id.slice(-4)}`, key: trimmed };
+  writeSavedKeys([...loadSavedKeys(), entry]);
+  return entry;
+}
+
+export function renameApiKey(id: string, name: string): void {
+  writeSavedKeys(loadSavedKeys().map(entry => (entry.id === id ? { ...entry, name } : entry)));
+}
+
+/** Removes a saved key. Its usage history stays, listed under its fingerprint. */
+export function deleteApiKey(id: string): void {
+  writeSavedKeys(loadSavedKeys().filter(entry => entry.id !== id));
+}
+
+/** Moves a saved key one place earlier (-1) or later (1) in the failover order. */
+export function moveApiKey(id: string, offset: -1 | 1): void {
+  const keys = loadSavedKeys();
+  const from = keys.findIndex(entry => entry.id === id);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= keys.length) return;
+  [keys[from], keys[to]] = [keys[to], keys[from]];
+  writeSavedKeys(keys);
+}
+
+/** The key requests go to: the one chosen last, else the first. */
+export function getActiveApiKey(): ApiKeyEntry | undefined {
+  const keys = listApiKeys();
+  const activeId = typeof localStorage !== 'undefined' ? localStorage.getItem(ACTIVE_STORAGE_KEY) : null;
+  return keys.find(entry => entry.id === activeId) || keys[0];
+}
+
+export function setActiveApiKey(id: string): void {
+  localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+  notify();
+}
+
+/** Opens the AI Studio key selector, which replaces the environment key, and makes that key active. */
+export async function selectAiStudioKey(): Promise<void> {
+  if (!window.aistudio?.openSelectKey) throw new Error('API key selection is not available in this environment.');
+  await window.aistudio.openSelectKey();
+  const environment = listApiKeys().find(entry => entry.fromEnvironment);
+  if (environment) setActiveApiKey(environment.id);
+  else notify();
+}
+
+/** Every key, starting with the active one and continuing in list order. */
+export function getFailoverOrder(): ApiKeyEntry[] {
+  const keys = listApiKeys();
+  const start = Math.max(0, keys.findIndex(entry => entry.id === getActiveApiKey()?.id));
+  return [...keys.slice(start), ...keys.slice(0, start)];
+}
+
+// --- Change notifications ---
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === KEYS_STORAGE_KEY || e.key === ACTIVE_STORAGE_KEY) notify();
+  });
+}
+
+/** Called when keys are added, removed, reordered or switched, here or in another tab. */
+export function subscribeToKeys(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
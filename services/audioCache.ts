@@ -0,0 +1,111 @@
+import { GeneratedAudio } from '../types';
+import { AUDIO_CACHE_MAX_BYTES } from '../constants';
+import { requestToPromise, STORES, withStore } from './db';
+import { base64ToPcm, pcmToGeneratedAudio } from '../utils/audioUtils';
+
+/**
+ * Content-addressed cache of synthesized clips, in front of the providers.
+ *
+ * The key is a SHA-256 of everything that affects the audio: the normalized
+ * text, the provider voice (`realVoiceId`, so aliases of one voice share
+ * entries), the model and any style parameters. Entries are evicted least
+ * recently used once AUDIO_CACHE_MAX_BYTES is exceeded.
+ */
+
+export interface CacheKeyParts {
+  text: string;
+  realVoiceId: string;
+  model: string;
+  style?: Record<string, unknown>;
+}
+
+interface CacheEntry {
+  key: string;
+  base64Audio: string;
+  sampleRate: number;
+  sizeBytes: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+/** Whitespace and Unicode form don't change what gets spoken, so they shouldn't change the key. */
+export function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+// JSON with sorted keys, so { a, b } and { b, a } hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function createCacheKey({ text, realVoiceId, model, style }: CacheKeyParts): Promise<string> {
+  const source = stableStringify({ text: normalizeText(text), realVoiceId, model, style: style || {} });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(source));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** The cached clip for `key`, flagged `fromCache`, or null on a miss. */
+export async function getCachedAudio(key: string): Promise<GeneratedAudio | null> {
+  const entry = await withStore(STORES.audioCache, 'readwrite', async store => {
+    const found = await requestToPromise(store.get(key) as IDBRequest<CacheEntry | undefined>);
+    if (found) await requestToPromise(store.put({ ...found, lastUsedAt: Date.now() }));
+    return found;
+  });
+  if (!entry) return null;
+  return { ...pcmToGeneratedAudio(base64ToPcm(entry.base64Audio), entry.sampleRate), fromCache: true };
+}
+
+/** Whether `key` is cached, without touching its LRU position or decoding it. */
+export async function hasCachedAudio(key: string): Promise<boolean> {
+  const count = await withStore(STORES.audioCache, 'readonly', store => requestToPromise(store.count(key)));
+  return count > 0;
+}
+
+export async function putCachedAudio(key: string, audio: GeneratedAudio): Promise<void> {
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    base64Audio: audio.base64Audio,
+    sampleRate: audio.sampleRate,
+    // base64 carries 3 bytes per 4 characters
+    sizeBytes: Math.ceil(audio.base64Audio.length * 0.75),
+    createdAt: now,
+    lastUsedAt: now,
+  };
+  await withStore(STORES.audioCache, 'readwrite', store => requestToPromise(store.put(entry)));
+  await evict();
+}
+
+async function evict(): Promise<void> {
+  await withStore(STORES.audioCache, 'readwrite', async store => {
+    const entries = await requestToPromise(store.getAll() as IDBRequest<CacheEntry[]>);
+    let bytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    // Least recently used first
+    for (const entry of entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+      if (bytes <= AUDIO_CACHE_MAX_BYTES) break;
+      await requestToPromise(store.delete(entry.key));
+      bytes -= entry.sizeBytes;
+    }
+  });
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const entries = await withStore(STORES.audioCache, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<CacheEntry[]>));
+  return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.sizeBytes, 0) };
+}
+
+export async function clearAudioCache(): Promise<void> {
+  await withStore(STORES.audioCache, 'readwrite', store => requestToPromise(store.clear()));
+}
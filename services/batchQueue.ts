@@ -0,0 +1,228 @@
+import { BatchItem, ChunkJob, DeliverySettings, LexiconEntry, TTSStatus } from '../types';
+import { DEFAULT_CHUNK_MAX_CHARS } from '../constants';
+import { createTextJobs, runChunkPipeline, stitchChunks } from './chunkingService';
+import { createSegmentRoute, findSegments, planSegments, RoutingOptions } from './languageService';
+import { parseCsv, toCsv } from '../utils/csv';
+import { createZip, ZipEntry } from '../utils/zip';
+import { base64ToPcm, createWavBytes } from '../utils/audioUtils';
+import { findVoice, listVoices } from './voiceCatalog';
+
+// --- Import ---
+
+export interface BatchImportResult {
+  items: BatchItem[];
+  issues: { lineNumber: number; message: string }[];
+}
+
+let nextId = 0;
+const createItem = (sourceLine: number, text: string, voiceId: string): BatchItem => ({
+  id: `batch_${Date.now().toString(36)}_${nextId++}`,
+  sourceLine,
+  text,
+  voiceId,
+  status: TTSStatus.IDLE,
+});
+
+/** One snippet per non-empty line. */
+export function parseBatchLines(source: string, defaultVoiceId: string): BatchImportResult {
+  const items: BatchItem[] = [];
+  source.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim()) items.push(createItem(i + 1, line.trim(), defaultVoiceId));
+  });
+  return { items, issues: [] };
+}
+
+/**
+ * CSV with a `text` column and an optional `voice` / `voice_id` column
+ * holding a voice id or name (prebuilt or alias). Without a recognizable header, the first
+ * column is the text and the second the voice.
+ */
+export function parseBatchCsv(source: string, defaultVoiceId: string): BatchImportResult {
+  const rows = parseCsv(source);
+  const issues: BatchImportResult['issues'] = [];
+  const items: BatchItem[] = [];
+  if (rows.length === 0) return { items, issues };
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const hasHeader = header.includes('text');
+  const textColumn = hasHeader ? header.indexOf('text') : 0;
+  const voiceColumn = hasHeader ? header.findIndex(cell => cell === 'voice' || cell === 'voice_id') : 1;
+  const voices = listVoices();
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const lineNumber = i + (hasHeader ? 2 : 1);
+    const text = (row[textColumn] || '').trim();
+    if (!text) {
+      if (row.some(cell => cell.trim())) issues.push({ lineNumber, message: 'Row has no text.' });
+      return;
+    }
+
+    const voiceCell = voiceColumn >= 0 ? (row[voiceColumn] || '').trim() : '';
+    // Accept the voice id or its display name, case-insensitively
+    const voice = voiceCell
+      ? voices.find(v => v.id.toLowerCase() === voiceCell.toLowerCase() || v.name.toLowerCase() === voiceCell.toLowerCase())
+      : undefined;
+    if (voiceCell && !voice) {
+      issues.push({ lineNumber, message: `Unknown voice "${voiceCell}".` });
+      return;
+    }
+    items.push(createItem(lineNumber, text, voice?.id || defaultVoiceId));
+  });
+
+  return { items, issues };
+}
+
+// --- Processing ---
+
+export interface BatchController {
+  readonly signal: AbortSignal;
+  isPaused: () => boolean;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  /** Resolves immediately unless paused; otherwise when resumed or cancelled. */
+  waitWhilePaused: () => Promise<void>;
+}
+
+/** `onChange` fires on pause, resume and cancel, including pauses triggered by the runner itself. */
+export function createBatchController(onChange?: () => void): BatchController {
+  const abort = new AbortController();
+  let paused = false;
+  let wake: (() => void) | null = null;
+
+  const release = () => {
+    wake?.();
+    wake = null;
+  };
+
+  return {
+    signal: abort.signal,
+    isPaused: () => paused,
+    pause: () => {
+      paused = true;
+      onChange?.();
+    },
+    resume: () => {
+      paused = false;
+      release();
+      onChange?.();
+    },
+    cancel: () => {
+      abort.abort();
+      release();
+      onChange?.();
+    },
+    waitWhilePaused: () => (paused && !abort.signal.aborted
+      ? new Promise<void>(resolve => { wake = resolve; })
+      : Promise.resolve()),
+  };
+}
+
+// Collapses the chunk states of one item into a single status for the list.
+// Chunks waiting for a rate-limit slot or between retries count as queued.
+function summarizeChunks(jobs: ChunkJob[]): TTSStatus {
+  return jobs.some(job => job.status === TTSStatus.GENERATING) ? TTSStatus.GENERATING : TTSStatus.QUEUED;
+}
+
+export interface RunBatchOptions {
+  controller: BatchController;
+  /** Current queue; read before each item so snippets enqueued mid-run are picked up. */
+  getItems: () => BatchItem[];
+  updateItem: (id: string, patch: Partial<BatchItem>) => void;
+  /** Pronunciation entries, read per item like the queue. */
+  getLexicon?: () => LexiconEntry[];
+  /** The delivery panel's settings, read per item. */
+  getDelivery?: () => DeliverySettings;
+  /** Language routing, read per item; without it each item keeps its voice throughout. */
+  getRouting?: () => RoutingOptions;
+}
+
+// The same jobs the editor would make for the item's text: markup, pauses and language routing included
+function createItemJobs(item: BatchItem, delivery?: DeliverySettings, routing?: RoutingOptions): ChunkJob[] {
+  const route = routing && createSegmentRoute(planSegments(findSegments(item.text), () => item.voiceId, {}, routing));
+  return createTextJobs(item.text, DEFAULT_CHUNK_MAX_CHARS, delivery, route);
+}
+
+/**
+ * Works through IDLE items in queue order, one at a time, under the shared
+ * rate limiter. A failed item is marked ERROR and the queue moves on, except
+ * when the daily quota is exhausted: then the item is held as QUEUED and the
+ * queue pauses, since every following item would fail the same way. Resuming
+ * retries the held item first.
+ */
+export async function runBatch(options: RunBatchOptions): Promise<void> {
+  const { controller, getItems, updateItem, getLexicon, getDelivery, getRouting } = options;
+
+  for (;;) {
+    await controller.waitWhilePaused();
+    if (controller.signal.aborted) {
+      // An item held back by a quota pause goes back to pending
+      getItems().filter(i => i.status === TTSStatus.QUEUED).forEach(i => updateItem(i.id, { status: TTSStatus.IDLE }));
+      return;
+    }
+
+    // An item held back by a quota pause goes first; nothing else is queued between items
+    const item = getItems().find(i => i.status === TTSStatus.QUEUED) || getItems().find(i => i.status === TTSStatus.IDLE);
+    if (!item) return;
+
+    updateItem(item.id, { status: TTSStatus.QUEUED, error: undefined });
+    const jobs = await runChunkPipeline(createItemJobs(item, getDelivery?.(), getRouting?.()), {
+      voiceId: item.voiceId,
+      lexicon: getLexicon?.(),
+      signal: controller.signal,
+      onUpdate: (chunkJobs) => updateItem(item.id, { status: summarizeChunks(chunkJobs) }),
+    });
+
+    if (controller.signal.aborted) {
+      updateItem(item.id, { status: TTSStatus.IDLE });
+      return;
+    }
+
+    const failed = jobs.find(job => job.status === TTSStatus.ERROR);
+    if (failed?.errorCode === 'QUOTA') {
+      // Out of quota: hold the item and pause, so resuming retries it
+      updateItem(item.id, { status: TTSStatus.QUEUED, error: failed.error });
+      controller.pause();
+      continue;
+    }
+    if (failed) {
+      updateItem(item.id, { status: TTSStatus.ERROR, error: failed.error });
+      continue;
+    }
+    updateItem(item.id, { status: TTSStatus.SUCCESS, audio: stitchChunks(jobs, item.text) });
+  }
+}
+
+// --- Export ---
+
+function slugify(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(/[^\w\s-]/g, '').trim().replace(/[\s_-]+/g, '-').slice(0, 40) || 'item';
+}
+
+export function getItemFileName(item: BatchItem, index: number): string {
+  return `${String(index + 1).padStart(3, '0')}-${slugify(item.text)}.wav`;
+}
+
+/** All finished items as WAV files, plus a manifest.csv describing each one. */
+export function createBatchZip(items: BatchItem[]): Blob {
+  const entries: ZipEntry[] = [];
+  const manifest: (string | number)[][] = [['file', 'source_line', 'voice_id', 'voice_name', 'duration_seconds', 'text']];
+
+  items.forEach((item, index) => {
+    if (item.status !== TTSStatus.SUCCESS || !item.audio) return;
+    const fileName = getItemFileName(item, index);
+    entries.push({ name: fileName, data: createWavBytes(base64ToPcm(item.audio.base64Audio), item.audio.sampleRate) });
+    manifest.push([
+      fileName,
+      item.sourceLine,
+      item.voiceId,
+      findVoice(item.voiceId)?.name || item.voiceId,
+      item.audio.durationSeconds.toFixed(2),
+      item.text,
+    ]);
+  });
+
+  entries.push({ name: 'manifest.csv', data: new TextEncoder().encode(toCsv(manifest)) });
+
+  return createZip(entries);
+}
@@ -0,0 +1,371 @@
+import { AudioSegment, ChunkJob, DeliverySettings, DialogueLine, GeneratedAudio, LexiconEntry, SpeechStyle, TTSStatus } from '../types';
+import { CHUNK_GAP_MS, CHUNK_MAX_RETRIES, CHUNK_RETRY_BASE_MS } from '../constants';
+import { generateSpeech, isSpeechCached } from './ttsService';
+import { QuotaExceededError, toTTSError } from './ttsErrors';
+import { createSpeechStyle, DEFAULT_DELIVERY, DeliveryPiece, parseDeliveryMarkup } from './deliveryService';
+import { applyLexicon } from './lexiconService';
+import { buildTimingTrack, locateInSource } from './timingService';
+import { base64ToPcm, concatPcm, pcmToGeneratedAudio } from '../utils/audioUtils';
+
+// --- Splitting ---
+
+function splitSentences(paragraph: string): string[] {
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(paragraph), s => s.segment.trim()).filter(Boolean);
+  }
+  // Fallback: end of sentence punctuation, optionally followed by closing quotes/brackets
+  return (paragraph.match(/[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)/g) || [paragraph])
+    .map(s => s.trim())
+    .filter(Boolean);
+}
+
+/** Last resort for a single sentence longer than the limit: cut at commas, then at spaces. */
+function splitOversized(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = sentence;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = Math.max(window.lastIndexOf(', '), window.lastIndexOf('; '));
+    if (cut < maxChars / 2) cut = window.lastIndexOf(' ');
+    if (cut <= 0) cut = maxChars - 1;
+    pieces.push(rest.slice(0, cut + 1).trim());
+    rest = rest.slice(cut + 1).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Splits text into chunks of at most `maxChars`, preferring paragraph
+ * boundaries, then sentence boundaries. Small paragraphs are packed
+ * together so we don't waste requests on one-line chunks.
+ */
+export function splitTextIntoChunks(text: string, maxChars: number): string[] {
+  const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string, separator: string) => {
+    if (current && current.length + separator.length + piece.length <= maxChars) {
+      current += separator + piece;
+    } else {
+      if (current) chunks.push(current);
+      current = piece;
+    }
+  };
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.length <= maxChars) {
+      push(paragraph, '\n\n');
+      continue;
+    }
+
+    // Oversized paragraph: start a fresh chunk and pack its sentences
+    if (current) chunks.push(current);
+    current = '';
+    for (const sentence of splitSentences(paragraph)) {
+      const pieces = sentence.length > maxChars ? splitOversized(sentence, maxChars) : [sentence];
+      pieces.forEach(piece => push(piece, ' '));
+    }
+    if (current) chunks.push(current);
+    current = '';
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export function createChunkJobs(text: string, maxChars: number): ChunkJob[] {
+  return splitTextIntoChunks(text, maxChars).map((chunkText, index) => ({
+    index,
+    text: chunkText,
+    status: TTSStatus.IDLE,
+    attempts: 0,
+  }));
+}
+
+/** The voice and language for text starting on a source line (see `createSegmentRoute`). */
+export type SegmentRoute = (lineNumber: number) => Pick<ChunkJob, 'voiceId' | 'language'>;
+
+// Paragraphs of a speech piece grouped into runs with the same route, so a chunk never mixes voices or languages
+function splitByRoute(text: string, firstLineNumber: number, route: SegmentRoute) {
+  const runs: { text: string; target: Pick<ChunkJob, 'voiceId' | 'language'> }[] = [];
+  let lineNumber = firstLineNumber;
+  for (const part of text.split(/(\n\s*\n)/)) {
+    if (!part.trim()) {
+      lineNumber += part.split('\n').length - 1;
+      continue;
+    }
+    const target = route(lineNumber);
+    const previous = runs[runs.length - 1];
+    if (previous && previous.target.voiceId === target.voiceId && previous.target.language === target.language) {
+      previous.text += `\n\n${part}`;
+    } else {
+      runs.push({ text: part, target });
+    }
+    lineNumber += part.split('\n').length - 1;
+  }
+  return runs;
+}
+
+/**
+ * Jobs for parsed delivery markup. Each speech piece is chunked on its own,
+ * so a pause or style change always falls on a chunk boundary; pauses become
+ * the silence before the next chunk (or after the last one). With `route`,
+ * a piece is also split where the language or voice changes.
+ */
+export function createDeliveryJobs(
+  pieces: DeliveryPiece[],
+  delivery: DeliverySettings,
+  maxChars: number,
+  base: Pick<ChunkJob, 'voiceId' | 'speaker' | 'lineNumber'> = {},
+  firstIndex = 0,
+  route?: SegmentRoute
+): ChunkJob[] {
+  const jobs: ChunkJob[] = [];
+  let pendingPauseMs: number | undefined;
+
+  for (const piece of pieces) {
+    if (piece.kind === 'pause') {
+      pendingPauseMs = (pendingPauseMs ?? 0) + piece.ms;
+      continue;
+    }
+    const runs = route ? splitByRoute(piece.text, piece.lineNumber, route) : [{ text: piece.text, target: {} }];
+    for (const run of runs) {
+      for (const chunkText of splitTextIntoChunks(run.text, maxChars)) {
+        jobs.push({
+          ...base,
+          ...run.target,
+          index: firstIndex + jobs.length,
+          text: chunkText,
+          status: TTSStatus.IDLE,
+          attempts: 0,
+          style: createSpeechStyle(delivery, piece.tone, piece.emphasis.filter(phrase => chunkText.includes(phrase))),
+          pauseBeforeMs: pendingPauseMs,
+        });
+        pendingPauseMs = undefined;
+      }
+    }
+  }
+
+  if (pendingPauseMs !== undefined && jobs.length > 0) jobs[jobs.length - 1].pauseAfterMs = pendingPauseMs;
+  return jobs;
+}
+
+/** Jobs for single-voice text, with its delivery markup applied. */
+export function createTextJobs(text: string, maxChars: number, delivery: DeliverySettings = DEFAULT_DELIVERY, route?: SegmentRoute): ChunkJob[] {
+  return createDeliveryJobs(parseDeliveryMarkup(text).pieces, delivery, maxChars, {}, 0, route);
+}
+
+/**
+ * One job per dialogue turn, each with its speaker's voice. Turns longer
+ * than `maxChars` are split further and share the same line number.
+ * Markup is scoped to its turn: a [style] doesn't carry over to the next line.
+ */
+export function createDialogueJobs(
+  lines: DialogueLine[],
+  speakerVoices: Record<string, string>,
+  maxChars: number,
+  delivery: DeliverySettings = DEFAULT_DELIVERY,
+  route?: SegmentRoute
+): ChunkJob[] {
+  const jobs: ChunkJob[] = [];
+  for (const line of lines) {
+    const { pieces } = parseDeliveryMarkup(line.text, line.lineNumber);
+    jobs.push(...createDeliveryJobs(pieces, delivery, maxChars, {
+      voiceId: speakerVoices[line.speaker],
+      speaker: line.speaker,
+      lineNumber: line.lineNumber,
+    }, jobs.length, route));
+  }
+  return jobs;
+}
+
+// --- Generation ---
+
+export interface ChunkPipelineOptions {
+  voiceId: string;
+  /** Pronunciation entries applied to each chunk (and its emphasis) before it is sent. */
+  lexicon?: LexiconEntry[];
+  maxRetries?: number;
+  retryBaseMs?: number;
+  /** Called with a fresh array every time a chunk changes state. */
+  onUpdate?: (jobs: ChunkJob[]) => void;
+  signal?: AbortSignal;
+}
+
+// Emphasized phrases must match the respelled text the model actually receives
+function respellStyle(style: SpeechStyle | undefined, lexicon: LexiconEntry[]): SpeechStyle | undefined {
+  if (!style?.emphasis || lexicon.length === 0) return style;
+  return { ...style, emphasis: style.emphasis.map(phrase => applyLexicon(phrase, lexicon)) };
+}
+
+// Resolves after `ms`, or as soon as `signal` aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * How many provider requests the jobs still need: chunks that already
+ * succeeded, or whose audio is cached, cost nothing.
+ */
+export async function countRequestsNeeded(jobs: ChunkJob[], options: Pick<ChunkPipelineOptions, 'voiceId' | 'lexicon'>): Promise<number> {
+  const { voiceId, lexicon = [] } = options;
+  const cached = await Promise.all(jobs.map(job => job.status === TTSStatus.SUCCESS
+    || isSpeechCached(applyLexicon(job.text, lexicon), job.voiceId ?? voiceId, respellStyle(job.style, lexicon))));
+  return cached.filter(hit => !hit).length;
+}
+
+/**
+ * Generates every chunk that isn't already SUCCESS, in order. Transient
+ * failures are retried with exponential backoff; if a chunk still fails the
+ * pipeline stops there and returns, keeping all audio generated so far.
+ * Calling it again with the returned jobs resumes from the failed chunk.
+ */
+export async function runChunkPipeline(initialJobs: ChunkJob[], options: ChunkPipelineOptions): Promise<ChunkJob[]> {
+  const {
+    voiceId,
+    lexicon = [],
+    maxRetries = CHUNK_MAX_RETRIES,
+    retryBaseMs = CHUNK_RETRY_BASE_MS,
+    onUpdate,
+    signal,
+  } = options;
+
+  let jobs = initialJobs.map(job => job.status === TTSStatus.SUCCESS
+    ? job
+    : { ...job, status: TTSStatus.IDLE, error: undefined, errorCode: undefined });
+
+  const update = (index: number, patch: Partial<ChunkJob>) => {
+    jobs = jobs.map(job => (job.index === index ? { ...job, ...patch } : job));
+    onUpdate?.(jobs);
+  };
+
+  onUpdate?.(jobs);
+
+  for (const job of jobs) {
+    if (job.status === TTSStatus.SUCCESS) continue;
+
+    let attempts = job.attempts;
+    for (let retry = 0; ; retry++) {
+      // Cancelled, possibly mid-backoff: stop before another request
+      if (signal?.aborted) return jobs;
+      update(job.index, { status: TTSStatus.GENERATING });
+      attempts++;
+      try {
+        const audio = await generateSpeech(applyLexicon(job.text, lexicon), job.voiceId ?? voiceId, {
+          style: respellStyle(job.style, lexicon),
+          signal,
+          onQueued: () => update(job.index, { status: TTSStatus.QUEUED }),
+          onStart: () => update(job.index, { status: TTSStatus.GENERATING }),
+        });
+        update(job.index, { status: TTSStatus.SUCCESS, audio, attempts, error: undefined, errorCode: undefined });
+        break;
+      } catch (err) {
+        const error = toTTSError(err);
+        console.error(`Chunk ${job.index + 1} failed (attempt ${attempts})`, error);
+        if (retry < maxRetries && error.retryable) {
+          update(job.index, { status: TTSStatus.IDLE, attempts, error: error.message, errorCode: error.code });
+          // Honour the server's RetryInfo when a 429 carries one
+          const delay = error instanceof QuotaExceededError && error.retryAfterMs
+            ? error.retryAfterMs
+            : retryBaseMs * 2 ** retry;
+          await sleep(delay, signal);
+          continue;
+        }
+        update(job.index, { status: TTSStatus.ERROR, attempts, error: error.message, errorCode: error.code });
+        return jobs;
+      }
+    }
+  }
+
+  return jobs;
+}
+
+// --- Stitching ---
+
+/**
+ * Joins the chunks into one clip with its timing track. With `sourceText`
+ * (the text the jobs were created from), words are also located in it.
+ */
+export function stitchChunks(jobs: ChunkJob[], sourceText?: string, gapMs: number = CHUNK_GAP_MS): GeneratedAudio {
+  const missing = jobs.filter(job => job.status !== TTSStatus.SUCCESS || !job.audio);
+  if (missing.length > 0) {
+    throw new Error(`Cannot stitch audio: ${missing.length} chunk(s) have not been generated yet.`);
+  }
+  const sampleRate = jobs[0]?.audio?.sampleRate;
+  const parts = jobs.map(job => base64ToPcm(job.audio!.base64Audio));
+  const silencesMs = getSilencesMs(jobs, gapMs);
+  const audio = pcmToGeneratedAudio(concatPcm(parts, silencesMs, sampleRate), sampleRate);
+  if (jobs.every(job => job.audio!.fromCache)) audio.fromCache = true;
+
+  const offsets = getChunkOffsets(parts, silencesMs, audio.sampleRate);
+  const timing = buildTimingTrack(jobs.map((job, i) => ({
+    text: job.text,
+    pcm: parts[i],
+    offsetSeconds: offsets[i],
+    speaker: job.speaker,
+    lineNumber: job.lineNumber,
+  })), audio.sampleRate);
+  audio.timing = sourceText !== undefined ? locateInSource(timing, sourceText) : timing;
+
+  if (jobs.some(job => job.speaker)) {
+    audio.segments = buildSegments(jobs, parts, offsets, audio.sampleRate);
+  }
+  return audio;
+}
+
+/**
+ * Silence around each chunk: entry i precedes chunk i, and the extra final
+ * entry follows the last chunk. Marked-up pauses replace the usual gap.
+ */
+export function getSilencesMs(jobs: ChunkJob[], gapMs: number = CHUNK_GAP_MS): number[] {
+  return [
+    ...jobs.map((job, i) => job.pauseBeforeMs ?? (i > 0 ? gapMs : 0)),
+    jobs[jobs.length - 1]?.pauseAfterMs ?? 0,
+  ];
+}
+
+// Start of each part in seconds, mirroring the layout produced by concatPcm
+function getChunkOffsets(parts: Int16Array[], silencesMs: number[], sampleRate: number): number[] {
+  let cursor = 0;
+  return parts.map((part, i) => {
+    cursor += Math.round((silencesMs[i] / 1000) * sampleRate) / sampleRate;
+    const start = cursor;
+    cursor += part.length / sampleRate;
+    return start;
+  });
+}
+
+// Chunks of the same turn merge into one segment
+function buildSegments(jobs: ChunkJob[], parts: Int16Array[], offsets: number[], sampleRate: number): AudioSegment[] {
+  const segments: AudioSegment[] = [];
+
+  jobs.forEach((job, i) => {
+    const start = offsets[i];
+    const end = start + parts[i].length / sampleRate;
+
+    const previous = segments[segments.length - 1];
+    if (previous && previous.lineNumber === job.lineNumber && previous.speaker === job.speaker) {
+      previous.endSeconds = end;
+    } else {
+      segments.push({
+        speaker: job.speaker || '',
+        voiceId: job.voiceId || '',
+        lineNumber: job.lineNumber ?? 0,
+        startSeconds: start,
+        endSeconds: end,
+      });
+    }
+  });
+  return segments;
+}
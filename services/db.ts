@@ -0,0 +1,82 @@
+/**
+ * The studio's IndexedDB database. Every object store is created here so
+ * schema versions stay in one place; bump DB_VERSION and add a step to
+ * `upgrade` when a new store or index is needed.
+ */
+
+const DB_NAME = 'gemini_tts_studio';
+const DB_VERSION = 3;
+
+export const STORES = {
+  history: 'history',
+  audioCache: 'audioCache',
+  projects: 'projects',
+} as const;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+    history.createIndex('createdAt', 'createdAt');
+    history.createIndex('voiceId', 'voiceId');
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.audioCache, { keyPath: 'key' });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.projects, { keyPath: 'id' });
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema: release this connection so it isn't blocked
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Runs `fn` in a transaction and resolves with its result once the transaction commits. */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+  const result = await fn(tx.objectStore(storeName));
+  await done;
+  return result;
+}
+
+export function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22);
+}
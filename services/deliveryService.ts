@@ -0,0 +1,232 @@
+import { DeliveryPreset, DeliverySettings, SpeechPace, SpeechStyle } from '../types';
+import { BUILT_IN_DELIVERY_PRESETS, DEFAULT_PAUSE_MS, MAX_PAUSE_MS, PACE_OPTIONS } from '../constants';
+import { ScriptIssue } from './scriptParser';
+
+/**
+ * Delivery: how text is read rather than what is read.
+ *
+ * Inline markup, usable in any mode:
+ *
+ *   [pause 500ms] or [pause 1.5s]  silence spliced into the audio ([pause] alone is 500 ms)
+ *   *emphasis*                     words the model is asked to stress
+ *   [style: whisper] ... [/style]  a tone for the text that follows, until the next style tag
+ *
+ * `\*` and `\[` produce literal characters. Brackets that aren't one of the
+ * tags above, and asterisks without a partner, are read as written too
+ * (pasted articles are full of "[1]"), with a warning in case a tag was
+ * mistyped.
+ */
+
+export const DEFAULT_DELIVERY: DeliverySettings = { tone: '', pace: 'normal' };
+
+export type DeliveryPiece =
+  | { kind: 'speech'; text: string; tone?: string; emphasis: string[]; lineNumber: number }
+  | { kind: 'pause'; ms: number; lineNumber: number };
+
+export interface MarkupResult {
+  pieces: DeliveryPiece[];
+  /** Malformed tags; the text can't be generated until they're fixed. */
+  issues: ScriptIssue[];
+  /** Markup-like text that is read literally. */
+  warnings: ScriptIssue[];
+}
+
+const PAUSE_PATTERN = /^pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s))?$/i;
+const STYLE_PATTERN = /^style\s*:\s*(.*)$/i;
+const STYLE_RESETS = ['', 'none', 'normal', 'default'];
+const MAX_STYLE_LENGTH = 60;
+
+/**
+ * Splits marked-up text into speech and pause pieces. Problems are reported
+ * per line but never thrown, so the editor can validate while the user types;
+ * malformed tags are left out of the pieces.
+ */
+export function parseDeliveryMarkup(source: string, firstLineNumber = 1): MarkupResult {
+  const pieces: DeliveryPiece[] = [];
+  const issues: ScriptIssue[] = [];
+  const warnings: ScriptIssue[] = [];
+  let tone: string | undefined;
+  let buffer = '';
+  let emphasis: string[] = [];
+  let bufferLine = firstLineNumber;
+
+  const flush = () => {
+    if (buffer.trim()) pieces.push({ kind: 'speech', text: buffer.trim(), tone, emphasis, lineNumber: bufferLine });
+    buffer = '';
+    emphasis = [];
+  };
+  const append = (text: string, lineNumber: number) => {
+    if (!buffer.trim()) bufferLine = lineNumber;
+    buffer += text;
+  };
+
+  source.split(/\r?\n/).forEach((line, i) => {
+    const lineNumber = firstLineNumber + i;
+    if (i > 0) append('\n', lineNumber);
+
+    for (let pos = 0; pos < line.length;) {
+      const char = line[pos];
+
+      if (char === '\\' && (line[pos + 1] === '*' || line[pos + 1] === '[')) {
+        append(line[pos + 1], lineNumber);
+        pos += 2;
+        continue;
+      }
+
+      if (char === '[') {
+        const end = line.indexOf(']', pos);
+        if (end < 0) {
+          warnings.push({ lineNumber, message: 'Unclosed "[" is read as written. Close the tag, or write \\[ if it is meant literally.' });
+          append(line.slice(pos), lineNumber);
+          break;
+        }
+        const raw = line.slice(pos, end + 1);
+        const tag = raw.slice(1, -1).trim();
+        pos = end + 1;
+
+        const pause = tag.match(PAUSE_PATTERN);
+        if (pause) {
+          const ms = pause[1] ? parseFloat(pause[1]) * (pause[2].toLowerCase() === 's' ? 1000 : 1) : DEFAULT_PAUSE_MS;
+          if (ms <= 0 || ms > MAX_PAUSE_MS) {
+            issues.push({ lineNumber, message: `[${tag}]: pauses must be between 1 ms and ${MAX_PAUSE_MS / 1000} s.` });
+            continue;
+          }
+          flush();
+          pieces.push({ kind: 'pause', ms: Math.round(ms), lineNumber });
+          continue;
+        }
+
+        const style = tag.match(STYLE_PATTERN);
+        if (style || tag === '/style') {
+          const name = style ? style[1].trim() : '';
+          if (name.length > MAX_STYLE_LENGTH) {
+            issues.push({ lineNumber, message: `[${tag.slice(0, 20)}…]: style descriptions are limited to ${MAX_STYLE_LENGTH} characters.` });
+            continue;
+          }
+          flush();
+          tone = STYLE_RESETS.includes(name.toLowerCase()) ? undefined : name;
+          continue;
+        }
+
+        warnings.push({ lineNumber, message: `"[${tag}]" is not a tag, so it is read as written. Tags are [pause 500ms], [style: whisper] and [/style].` });
+        append(raw, lineNumber);
+        continue;
+      }
+
+      if (char === '*') {
+        const end = line.indexOf('*', pos + 1);
+        if (end < 0) {
+          warnings.push({ lineNumber, message: 'Unmatched "*" is read as written. Close the emphasis, or write \\* if it is meant literally.' });
+          append(char, lineNumber);
+          pos++;
+          continue;
+        }
+        const phrase = line.slice(pos + 1, end);
+        if (!phrase.trim()) {
+          warnings.push({ lineNumber, message: `Empty emphasis "${line.slice(pos, end + 1)}" is read as written.` });
+          append(line.slice(pos, end + 1), lineNumber);
+        } else {
+          append(phrase, lineNumber);
+          emphasis.push(phrase.trim());
+        }
+        pos = end + 1;
+        continue;
+      }
+
+      append(char, lineNumber);
+      pos++;
+    }
+  });
+
+  flush();
+  return { pieces, issues, warnings };
+}
+
+/** Escapes `*` and `[` so imported text is read literally rather than as markup. */
+export function escapeMarkup(text: string): string {
+  return text.replace(/[*[]/g, char => `\\${char}`);
+}
+
+// --- Styles ---
+
+export function getPaceRate(pace: SpeechPace = 'normal'): number {
+  return PACE_OPTIONS.find(option => option.value === pace)?.rate ?? 1;
+}
+
+/** Combines the panel settings with a piece's inline markup. Undefined when there is nothing to ask for. */
+export function createSpeechStyle(delivery: DeliverySettings, tone?: string, emphasis: string[] = []): SpeechStyle | undefined {
+  const style: SpeechStyle = {};
+  const tones = [delivery.tone.trim(), tone].filter(Boolean);
+  if (tones.length > 0) style.tone = tones.join(', ');
+  if (delivery.pace !== 'normal') style.pace = delivery.pace;
+  if (emphasis.length > 0) style.emphasis = emphasis;
+  return Object.keys(style).length > 0 ? style : undefined;
+}
+
+/** Layers `override` on top of `base`: tones combine, a pace in `override` wins. */
+export function mergeSpeechStyles(base?: SpeechStyle, override?: SpeechStyle): SpeechStyle | undefined {
+  if (!base || !override) return base || override;
+  return {
+    ...base,
+    ...override,
+    tone: [base.tone, override.tone].filter(Boolean).join(', ') || undefined,
+    pace: override.pace ?? base.pace,
+  };
+}
+
+const PACE_DIRECTIONS: Record<SpeechPace, string> = {
+  'x-slow': 'very slowly',
+  slow: 'slowly',
+  normal: '',
+  fast: 'briskly',
+  'x-fast': 'very quickly',
+};
+
+/**
+ * Prefixes the text with a natural-language direction, the form the TTS
+ * model follows (e.g. `Read aloud in a cheerful tone, slowly:`). Plain text
+ * is returned unchanged.
+ */
+export function buildStylePrompt(text: string, style?: SpeechStyle): string {
+  if (!style) return text;
+  const directions: string[] = [];
+  if (style.tone) directions.push(`in a ${style.tone} tone`);
+  if (style.pace && PACE_DIRECTIONS[style.pace]) directions.push(PACE_DIRECTIONS[style.pace]);
+  if (style.emphasis?.length) directions.push(`stressing ${style.emphasis.map(word => `"${word}"`).join(', ')}`);
+  return directions.length > 0 ? `Read aloud ${directions.join(', ')}:\n${text}` : text;
+}
+
+// --- Presets ---
+
+const PRESETS_STORAGE_KEY = 'gemini_tts_delivery_presets';
+
+function loadCustomPresets(): DeliveryPreset[] {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/** Built-in presets followed by the ones saved for this voice. */
+export function listDeliveryPresets(voiceId: string): DeliveryPreset[] {
+  return [...BUILT_IN_DELIVERY_PRESETS, ...loadCustomPresets().filter(preset => preset.voiceId === voiceId)];
+}
+
+/** Saves under `name` for the voice, replacing an existing preset of the same name. */
+export function saveDeliveryPreset(voiceId: string, name: string, delivery: DeliverySettings): DeliveryPreset {
+  const presets = loadCustomPresets();
+  const existing = presets.find(preset => preset.voiceId === voiceId && preset.name === name);
+  const preset: DeliveryPreset = {
+    id: existing?.id || `preset_${Date.now().toString(36)}`,
+    name,
+    voiceId,
+    delivery: { ...delivery },
+  };
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify([...presets.filter(p => p.id !== preset.id), preset]));
+  return preset;
+}
+
+export function deleteDeliveryPreset(id: string): void {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(loadCustomPresets().filter(preset => preset.id !== id)));
+}
@@ -0,0 +1,207 @@
+import { readZip } from '../utils/zip';
+import { escapeMarkup } from './deliveryService';
+
+/**
+ * Turns documents into script text. Formatting the model can't speak is
+ * dropped; markdown and Word emphasis become `*emphasis*` markup, and any
+ * other `*` or `[` is escaped so it is read literally.
+ */
+
+export const DOCUMENT_EXTENSIONS = ['txt', 'md', 'markdown', 'docx', 'srt'];
+
+export const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+/** Blank lines separate paragraphs; runs of them collapse to one. */
+const tidy = (text: string) => text
+  .replace(/[ \t]+\n/g, '\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// --- Plain text ---
+
+/** Escapes markup characters, unless the file already uses the editor's own markup. */
+function importPlainText(source: string): string {
+  const usesMarkup = /\[(pause|style|\/style)\b[^\]]*\]/i.test(source);
+  return tidy(usesMarkup ? source.replace(/\r\n?/g, '\n') : escapeMarkup(source.replace(/\r\n?/g, '\n')));
+}
+
+// --- Markdown ---
+
+const EMPHASIS = '\u0000'; // Stands in for `*` until the rest of the line has been escaped
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== '#') return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+  });
+}
+
+function stripInline(text: string): string {
+  const stripped = decodeEntities(text
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')                 // Images
+    .replace(/\[\^[^\]]+\]/g, '')                         // Footnote references
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')              // Links
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')             // Reference links
+    .replace(/<(https?:\/\/|mailto:)[^>]+>/g, '')         // Autolinks
+    .replace(/<\/?[a-z][^>]*>/gi, '')                     // Inline HTML
+    .replace(/`+([^`]+)`+/g, '$1')                        // Inline code
+    .replace(/~~(.+?)~~/g, '$1'))
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, `${EMPHASIS}$2${EMPHASIS}`)
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, `${EMPHASIS}$1${EMPHASIS}`)
+    .replace(/(?<![\p{L}\p{N}])_(?=\S)(.+?)(?<=\S)_(?![\p{L}\p{N}])/gu, `${EMPHASIS}$1${EMPHASIS}`);
+  return escapeMarkup(stripped).replace(new RegExp(EMPHASIS, 'g'), '*');
+}
+
+/** Speakable text from markdown: headings, list items and table rows become lines of their own; wrapped paragraphs are joined. */
+export function stripMarkdown(source: string): string {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '')   // Front matter
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, '') // Fenced code
+    .split('\n');
+
+  const out: string[] = [];
+  let inParagraph = false;
+  for (const rawLine of lines) {
+    let line = rawLine.trim();
+    // Blank lines, rules, setext underlines, table separators, link definitions and indented code end a paragraph
+    if (
+      !line
+      || /^([-*_])(\s*\1){2,}$/.test(line)
+      || /^=+$/.test(line)
+      || /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/.test(line)
+      || /^\[[^\]]+\]:\s*\S+/.test(line)
+      || /^( {4}|\t)/.test(rawLine)
+    ) {
+      if (!line && out.length > 0 && out[out.length - 1] !== '') out.push('');
+      inParagraph = false;
+      continue;
+    }
+
+    let block = false;
+    line = line.replace(/^(>\s*)+/, '');
+    if (/^#{1,6}\s/.test(line)) {
+      line = line.replace(/^#{1,6}\s+/, '').replace(/\s+#+$/, '');
+      block = true;
+    } else if (/^([-*+]|\d+[.)])\s+/.test(line)) {
+      line = line.replace(/^([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '');
+      block = true;
+    } else if (line.startsWith('|') || /\S\s*\|\s*\S/.test(line)) {
+      line = line.replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).filter(Boolean).join(', ');
+      block = true;
+    }
+    line = stripInline(line).trim();
+    if (!line) continue;
+
+    if (inParagraph && !block) out[out.length - 1] += ` ${line}`;
+    else out.push(line);
+    inParagraph = !block;
+  }
+  return tidy(out.join('\n'));
+}
+
+// --- SubRip ---
+
+const SRT_TIME = /(\d+):(\d+):(\d+)[,.](\d+)\s*-->\s*(\d+):(\d+):(\d+)[,.](\d+)/;
+const PARAGRAPH_GAP_SECONDS = 2; // A longer gap between cues starts a new paragraph
+
+/** The dialogue of a subtitle file: cues are joined into paragraphs, dropping numbers, timestamps, tags and sound descriptions. */
+export function srtToText(source: string): string {
+  const seconds = (h: string, m: string, s: string, ms: string) => +h * 3600 + +m * 60 + +s + +ms / 1000;
+  const paragraphs: string[][] = [];
+  let previousEnd = -Infinity;
+
+  for (const block of source.replace(/\r\n?/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.trim().split('\n');
+    const timeIndex = lines.findIndex(line => SRT_TIME.test(line));
+    if (timeIndex < 0) continue;
+    const [, h1, m1, s1, ms1, h2, m2, s2, ms2] = lines[timeIndex].match(SRT_TIME)!;
+    const text = decodeEntities(lines.slice(timeIndex + 1).join(' '))
+      .replace(/<[^>]+>|\{\\[^}]*\}/g, '')           // <i>, <font>, {\an8}
+      .replace(/\[[^\]]*\]|\([A-Z\s]+\)|♪/g, '')    // [MUSIC], (LAUGHS)
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!text) continue;
+
+    const start = seconds(h1, m1, s1, ms1);
+    if (paragraphs.length === 0 || start - previousEnd >= PARAGRAPH_GAP_SECONDS) paragraphs.push([]);
+    paragraphs[paragraphs.length - 1].push(text);
+    previousEnd = seconds(h2, m2, s2, ms2);
+  }
+  return escapeMarkup(paragraphs.map(p => p.join(' ')).join('\n\n'));
+}
+
+// --- Word ---
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/** Paragraph text from a .docx; bold and italic runs become emphasis, tables become one line per row. */
+export async function extractDocxText(bytes: Uint8Array): Promise<string> {
+  const entries = await readZip(bytes);
+  const documentXml = entries.find(entry => entry.name === 'word/document.xml');
+  if (!documentXml) throw new Error('This .docx file has no document body.');
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(documentXml.data), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('This .docx file is damaged.');
+
+  const paragraphText = (paragraph: Element): string => {
+    let text = '';
+    for (const run of Array.from(paragraph.getElementsByTagNameNS(WORD_NS, 'r'))) {
+      let runText = '';
+      for (const node of Array.from(run.childNodes)) {
+        if (node.nodeType !== Node.ELEMENT_NODE || (node as Element).namespaceURI !== WORD_NS) continue;
+        const name = (node as Element).localName;
+        if (name === 't') runText += node.textContent || '';
+        // Line breaks inside a paragraph are soft: emphasis markup can't span lines
+        else if (name === 'tab' || name === 'br' || name === 'cr') runText += ' ';
+      }
+      const props = run.getElementsByTagNameNS(WORD_NS, 'rPr')[0];
+      const emphasized = !!props && ['b', 'i'].some(tag => {
+        const flag = props.getElementsByTagNameNS(WORD_NS, tag)[0];
+        return flag && !['0', 'false'].includes(flag.getAttributeNS(WORD_NS, 'val') || '');
+      });
+      text += emphasized && runText.trim() ? `${EMPHASIS}${runText}${EMPHASIS}` : runText;
+    }
+    // Adjacent emphasized runs merge into one phrase
+    const merged = text.replace(new RegExp(`${EMPHASIS}(\\s*)${EMPHASIS}`, 'g'), '$1');
+    return escapeMarkup(merged).replace(new RegExp(EMPHASIS, 'g'), '*');
+  };
+
+  const lines: string[] = [];
+  const body = doc.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  for (const block of Array.from(body?.children || [])) {
+    if (block.localName === 'p') {
+      lines.push(paragraphText(block));
+    } else if (block.localName === 'tbl') {
+      for (const row of Array.from(block.getElementsByTagNameNS(WORD_NS, 'tr'))) {
+        const cells = Array.from(row.getElementsByTagNameNS(WORD_NS, 'tc'))
+          .map(cell => Array.from(cell.getElementsByTagNameNS(WORD_NS, 'p')).map(paragraphText).join(' ').trim())
+          .filter(Boolean);
+        if (cells.length > 0) lines.push(cells.join(', '));
+      }
+    }
+  }
+  // Word has no blank-line convention: every paragraph is its own
+  return tidy(lines.map(line => line.trim()).filter(Boolean).join('\n\n'));
+}
+
+/** Script text from a .txt, .md, .docx or .srt file. */
+export async function importDocument(file: File): Promise<string> {
+  const extension = getExtension(file.name);
+  switch (extension) {
+    case 'txt':
+      return importPlainText(await file.text());
+    case 'md':
+    case 'markdown':
+      return stripMarkdown(await file.text());
+    case 'srt':
+      return srtToText(await file.text());
+    case 'docx':
+      return extractDocxText(new Uint8Array(await file.arrayBuffer()));
+    default:
+      throw new Error(`".${extension}" files can't be imported. Use ${DOCUMENT_EXTENSIONS.map(e => `.${e}`).join(', ')}.`);
+  }
+}
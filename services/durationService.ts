@@ -0,0 +1,128 @@
+import { AudioSegment, ChunkJob, GeneratedAudio } from '../types';
+import { CHUNK_GAP_MS, DEFAULT_WORDS_PER_MINUTE, MAX_STRETCH_FACTOR, MIN_STRETCH_FACTOR } from '../constants';
+import { base64ToPcm, pcmToGeneratedAudio } from '../utils/audioUtils';
+import { timeStretch } from '../utils/timeStretch';
+import { getActiveProviderId } from './ttsService';
+import { getPaceRate } from './deliveryService';
+import { getSilencesMs } from './chunkingService';
+import { scaleTimingTrack } from './timingService';
+
+// --- Pace measurement ---
+
+const PACE_STORAGE_KEY = 'gemini_tts_voice_pace';
+// Once a voice has this many measured words, older measurements are halved so the pace tracks recent output
+const PACE_DECAY_WORDS = 20000;
+
+interface PaceRecord {
+  words: number;
+  seconds: number;
+}
+
+function loadPaces(): Record<string, PaceRecord> {
+  try {
+    return JSON.parse(localStorage.getItem(PACE_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+// Paces are per engine: the offline provider's tones say nothing about Gemini's speed
+const paceKey = (voiceId: string) => `${getActiveProviderId()}:${voiceId}`;
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/** Words per minute for a voice, measured from previous generations when available. */
+export function getVoicePace(voiceId: string): { wpm: number; measured: boolean } {
+  const record = loadPaces()[paceKey(voiceId)];
+  if (!record || record.seconds < 5) return { wpm: DEFAULT_WORDS_PER_MINUTE, measured: false };
+  return { wpm: (record.words / record.seconds) * 60, measured: true };
+}
+
+/** `paceRate` is the delivery pace the audio was read at; it's divided out so the record keeps the natural pace. */
+export function recordVoicePace(voiceId: string, text: string, durationSeconds: number, paceRate = 1): void {
+  durationSeconds *= paceRate;
+  const words = countWords(text);
+  if (words === 0 || durationSeconds <= 0) return;
+
+  const paces = loadPaces();
+  const key = paceKey(voiceId);
+  let record = paces[key] || { words: 0, seconds: 0 };
+  if (record.words > PACE_DECAY_WORDS) {
+    record = { words: record.words / 2, seconds: record.seconds / 2 };
+  }
+  paces[key] = { words: record.words + words, seconds: record.seconds + durationSeconds };
+  localStorage.setItem(PACE_STORAGE_KEY, JSON.stringify(paces));
+}
+
+// --- Estimation ---
+
+/** Expected length of the stitched output for these jobs, including gaps, pauses and the delivery pace. */
+export function estimateDuration(jobs: ChunkJob[], defaultVoiceId: string, gapMs: number = CHUNK_GAP_MS): number {
+  const speech = jobs.reduce((sum, job) => {
+    const { wpm } = getVoicePace(job.voiceId ?? defaultVoiceId);
+    return sum + (countWords(job.text) / (wpm * getPaceRate(job.style?.pace))) * 60;
+  }, 0);
+  const silence = jobs.length > 0 ? getSilencesMs(jobs, gapMs).reduce((sum, ms) => sum + ms, 0) : 0;
+  return speech + silence / 1000;
+}
+
+export interface TargetAssessment {
+  estimatedSeconds: number;
+  targetSeconds: number;
+  /** Stretch needed to land on the target (output length / natural length). */
+  requiredFactor: number;
+  feasible: boolean;
+  message: string;
+}
+
+export function assessTarget(estimatedSeconds: number, targetSeconds: number): TargetAssessment {
+  const requiredFactor = targetSeconds / estimatedSeconds;
+  const feasible = requiredFactor >= MIN_STRETCH_FACTOR && requiredFactor <= MAX_STRETCH_FACTOR;
+  const percent = Math.round(Math.abs(requiredFactor - 1) * 100);
+
+  let message: string;
+  if (percent <= 2) {
+    message = 'The text should naturally land on the target.';
+  } else if (feasible) {
+    message = `Will be slowed down or sped up by about ${percent}% to fit.`;
+  } else if (requiredFactor > 1) {
+    message = `Too short for the target: it would need to be ${percent}% slower. Add roughly ${Math.round((1 - 1 / requiredFactor) * 100)}% more text.`;
+  } else {
+    message = `Too long for the target: it would need to be ${percent}% faster. Cut roughly ${Math.round((1 - requiredFactor) * 100)}% of the text.`;
+  }
+
+  return { estimatedSeconds, targetSeconds, requiredFactor, feasible, message };
+}
+
+// --- Fitting ---
+
+/**
+ * Time-stretches the audio toward `targetSeconds` without changing pitch.
+ * The stretch is clamped to the range that still sounds natural, so the
+ * result may fall short of the target; `fit` records what was achieved.
+ */
+export function fitToDuration(audio: GeneratedAudio, targetSeconds: number): GeneratedAudio {
+  const wanted = targetSeconds / audio.durationSeconds;
+  const factor = Math.min(MAX_STRETCH_FACTOR, Math.max(MIN_STRETCH_FACTOR, wanted));
+
+  const stretched = timeStretch(base64ToPcm(audio.base64Audio), factor, audio.sampleRate);
+  const fitted = pcmToGeneratedAudio(stretched, audio.sampleRate);
+  const actualFactor = fitted.durationSeconds / audio.durationSeconds;
+
+  return {
+    ...fitted,
+    segments: audio.segments?.map((segment): AudioSegment => ({
+      ...segment,
+      startSeconds: segment.startSeconds * actualFactor,
+      endSeconds: segment.endSeconds * actualFactor,
+    })),
+    timing: audio.timing && scaleTimingTrack(audio.timing, actualFactor),
+    fit: {
+      targetSeconds,
+      originalSeconds: audio.durationSeconds,
+      stretchFactor: actualFactor,
+    },
+  };
+}
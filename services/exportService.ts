@@ -0,0 +1,103 @@
+import { AudioTags, ExportFormat, ExportSettings, GeneratedAudio } from '../types';
+import { EXPORT_SAMPLE_RATES, MP3_BITRATES, OPUS_BITRATES } from '../constants';
+import { base64ToPcm, createWavBytes } from '../utils/audioUtils';
+import { resamplePcm } from '../utils/resample';
+import { encodeMp3 } from '../utils/mp3Encoder';
+import { encodeFlac } from '../utils/flacEncoder';
+import { encodeOggOpus, OPUS_SAMPLE_RATE } from '../utils/oggOpusEncoder';
+import { findVoice } from './voiceCatalog';
+
+/**
+ * Client-side export of generated audio to the formats publishing platforms
+ * accept. Everything runs in the browser: PCM is resampled if needed, then
+ * encoded and tagged.
+ */
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav' },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  ogg: { label: 'OGG/Opus', extension: 'ogg', mimeType: 'audio/ogg' },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac' },
+};
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: 'mp3', sampleRate: 44100, bitrateKbps: 128 };
+
+const SETTINGS_STORAGE_KEY = 'gemini_tts_export_settings';
+
+export function getBitrateOptions(format: ExportFormat): number[] {
+  if (format === 'mp3') return MP3_BITRATES;
+  if (format === 'ogg') return OPUS_BITRATES;
+  return [];
+}
+
+/** Keeps a loaded or edited settings object within what the chosen format supports. */
+export function normalizeExportSettings(settings: Partial<ExportSettings>): ExportSettings {
+  const format = settings.format && settings.format in EXPORT_FORMATS ? settings.format : DEFAULT_EXPORT_SETTINGS.format;
+  const bitrates = getBitrateOptions(format);
+  return {
+    format,
+    sampleRate: EXPORT_SAMPLE_RATES.includes(settings.sampleRate ?? 0) ? settings.sampleRate! : DEFAULT_EXPORT_SETTINGS.sampleRate,
+    // Lossless formats keep the last bitrate for when a lossy one is picked again; the default is valid for all lossy ones
+    bitrateKbps: (bitrates.length === 0 || bitrates.includes(settings.bitrateKbps ?? 0)) && settings.bitrateKbps
+      ? settings.bitrateKbps
+      : DEFAULT_EXPORT_SETTINGS.bitrateKbps,
+  };
+}
+
+export function loadExportSettings(): ExportSettings {
+  try {
+    return normalizeExportSettings(JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}'));
+  } catch {
+    return DEFAULT_EXPORT_SETTINGS;
+  }
+}
+
+export function saveExportSettings(settings: ExportSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/** The rate the file will actually have: Opus is always 48 kHz. */
+export function getOutputSampleRate(settings: ExportSettings): number {
+  return settings.format === 'ogg' ? OPUS_SAMPLE_RATE : settings.sampleRate;
+}
+
+/** e.g. "MP3 128 kbps (44.1kHz Mono)". */
+export function describeExportSettings(settings: ExportSettings): string {
+  const khz = `${getOutputSampleRate(settings) / 1000}kHz`;
+  const bitrate = getBitrateOptions(settings.format).length > 0 ? ` ${settings.bitrateKbps} kbps` : '';
+  return `${EXPORT_FORMATS[settings.format].label}${bitrate} (${khz} Mono)`;
+}
+
+export function createExportTags(audio: GeneratedAudio): AudioTags {
+  const meta = audio.meta;
+  const voiceIds = meta?.settings.speakerVoices ? Object.values(meta.settings.speakerVoices) : meta ? [meta.voiceId] : [];
+  const voiceNames = Array.from(new Set(voiceIds)).map(id => findVoice(id)?.name || id);
+  const firstLine = meta?.text.trim().split('\n')[0] || '';
+  return {
+    title: firstLine.length > 60 ? `${firstLine.slice(0, 60).trimEnd()}…` : firstLine || 'Gemini TTS',
+    artist: voiceNames.join(', ') || 'Gemini TTS',
+    date: new Date(meta?.createdAt ?? Date.now()).toISOString(),
+  };
+}
+
+export function getExportFileName(settings: ExportSettings, createdAt: number = Date.now()): string {
+  return `gemini-tts-${createdAt}.${EXPORT_FORMATS[settings.format].extension}`;
+}
+
+export async function exportAudio(audio: GeneratedAudio, settings: ExportSettings, tags: AudioTags = createExportTags(audio)): Promise<Blob> {
+  const source = base64ToPcm(audio.base64Audio);
+  const sampleRate = getOutputSampleRate(settings);
+  const pcm = resamplePcm(source, audio.sampleRate, sampleRate);
+  const { mimeType } = EXPORT_FORMATS[settings.format];
+
+  switch (settings.format) {
+    case 'wav':
+      return new Blob([createWavBytes(pcm, sampleRate)], { type: mimeType });
+    case 'mp3':
+      return new Blob(encodeMp3(pcm, sampleRate, settings.bitrateKbps, tags), { type: mimeType });
+    case 'flac':
+      return new Blob([encodeFlac(pcm, sampleRate, tags)], { type: mimeType });
+    case 'ogg':
+      return new Blob(await encodeOggOpus(pcm, settings.bitrateKbps, tags, audio.sampleRate), { type: mimeType });
+  }
+}
@@ -1,17 +1,92 @@
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-
-export async function generateText(prompt: string) {
-  const res = await fetch(
-    "https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=" + API_KEY,
-    {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        contents: [{ parts: [{ text: prompt }] }]
-      })
-    }
-  );
-
-  const data = await res.json();
-  return data.candidates?.[0]?.content?.parts?.[0]?.text || "";
+import { GoogleGenAI, Modality, FinishReason } from '@google/genai';
+import { GeneratedAudio, SpeechStyle, TTSProvider, VoiceOption } from '../types';
+import { base64ToPcm, pcmToGeneratedAudio, PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { AuthError, EmptyAudioError, SafetyBlockedError, toTTSError } from './ttsErrors';
+import { buildStylePrompt } from './deliveryService';
+import { PREBUILT_VOICES } from './voiceCatalog';
+
+export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+// Prebuilt voices accepted by `prebuiltVoiceConfig.voiceName`
+export const GEMINI_PREBUILT_VOICES = [
+  'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe',
+  'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome', 'Algenib', 'Rasalgethi',
+  'Laomedeia', 'Achernar', 'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird',
+  'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+// e.g. "audio/L16;codec=pcm;rate=24000"
+function parseSampleRate(mimeType?: string): number {
+  const match = mimeType?.match(/rate=(\d+)/);
+  return match ? parseInt(match[1], 10) : PCM_SAMPLE_RATE;
 }
+
+/**
+ * Synthesizes `text` with the prebuilt Gemini voice behind `voice.realVoiceId`,
+ * with `style` given to the model as a spoken-direction prefix, billed to
+ * `apiKey`. Aborting `signal` abandons the request on our side only; the
+ * server still finishes (and bills) it. Always throws a `TTSError` subclass
+ * on failure.
+ */
+async function synthesize(text: string, voice: VoiceOption, style?: SpeechStyle, apiKey?: string, signal?: AbortSignal): Promise<GeneratedAudio> {
+  if (!apiKey) throw new AuthError('No API key is set. Add one under Usage & keys.');
+  // Create the client per call: consecutive requests may go to different keys
+  const ai = new GoogleGenAI({ apiKey });
+
+  let response;
+  try {
+    response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: buildStylePrompt(text, style) }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: voice.realVoiceId },
+          },
+        },
+      },
+    });
+  } catch (err) {
+    throw toTTSError(err);
+  }
+
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(blockReason);
+  }
+
+  const candidate = response.candidates?.[0];
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    throw new SafetyBlockedError(candidate.finishReason);
+  }
+
+  const inlineData = candidate?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  if (!inlineData?.data) {
+    throw new EmptyAudioError();
+  }
+
+  const pcm = base64ToPcm(inlineData.data);
+  if (pcm.length === 0) {
+    throw new EmptyAudioError();
+  }
+
+  return pcmToGeneratedAudio(pcm, parseSampleRate(inlineData.mimeType));
+}
+
+export const geminiProvider: TTSProvider = {
+  id: 'gemini',
+  name: 'Gemini (cloud)',
+  model: TTS_MODEL,
+  metered: true,
+  supportedVoiceIds: PREBUILT_VOICES.filter(v => GEMINI_PREBUILT_VOICES.includes(v.realVoiceId)).map(v => v.id),
+  synthesize,
+};
@@ -0,0 +1,172 @@
+import { GeneratedAudio, GenerationMeta, HistoryEntry } from '../types';
+import { HISTORY_MAX_BYTES, HISTORY_MAX_ENTRIES, PROJECT_KEPT_TAKES } from '../constants';
+import { isQuotaError, openDb, requestToPromise, STORES, withStore } from './db';
+import { base64ToPcm, createWavBlob, parseWav, pcmToGeneratedAudio } from '../utils/audioUtils';
+
+/**
+ * Generation history, persisted in IndexedDB with the audio as a WAV blob.
+ *
+ * Eviction: the library is capped at HISTORY_MAX_ENTRIES entries and
+ * HISTORY_MAX_BYTES of audio. When a save would exceed either cap, or the
+ * browser reports the storage quota is full, the oldest unpinned entries
+ * are removed first. Each project's PROJECT_KEPT_TAKES newest takes count
+ * as pinned.
+ */
+
+export function createGenerationId(): string {
+  return `gen_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore(STORES.history, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<HistoryEntry[]>));
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export interface HistoryFilter {
+  query?: string;
+  voiceId?: string;
+  projectId?: string;
+}
+
+export function filterHistory(entries: HistoryEntry[], { query, voiceId, projectId }: HistoryFilter): HistoryEntry[] {
+  const needle = query?.trim().toLowerCase();
+  return entries.filter(entry =>
+    (!voiceId || entry.voiceId === voiceId || Object.values(entry.settings.speakerVoices || {}).includes(voiceId))
+    && (!projectId || entry.projectId === projectId)
+    && (!needle || entry.text.toLowerCase().includes(needle))
+  );
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore(STORES.history, 'readwrite', store => requestToPromise(store.delete(id)));
+}
+
+export async function setHistoryPinned(id: string, pinned: boolean): Promise<void> {
+  await withStore(STORES.history, 'readwrite', async store => {
+    const entry = await requestToPromise(store.get(id) as IDBRequest<HistoryEntry | undefined>);
+    if (entry) await requestToPromise(store.put({ ...entry, pinned }));
+  });
+}
+
+export async function deleteProjectTakes(projectId: string): Promise<void> {
+  const entries = await listHistory();
+  await withStore(STORES.history, 'readwrite', async store => {
+    for (const entry of entries) {
+      if (entry.projectId === projectId) await requestToPromise(store.delete(entry.id));
+    }
+  });
+}
+
+/** Pinned entries plus each project's newest takes. `entries` must be newest first. */
+function findKeptIds(entries: HistoryEntry[]): Set<string> {
+  const kept = new Set<string>();
+  const perProject = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.pinned) kept.add(entry.id);
+    if (!entry.projectId) continue;
+    const count = perProject.get(entry.projectId) || 0;
+    if (count < PROJECT_KEPT_TAKES) kept.add(entry.id);
+    perProject.set(entry.projectId, count + 1);
+  }
+  return kept;
+}
+
+export async function clearHistory(includePinned = false): Promise<void> {
+  const entries = await listHistory();
+  await withStore(STORES.history, 'readwrite', async store => {
+    for (const entry of entries) {
+      if (includePinned || !entry.pinned) await requestToPromise(store.delete(entry.id));
+    }
+  });
+}
+
+/** Removes the oldest unpinned entries until the caps leave room for `incomingBytes`. Returns how many were removed. */
+async function evict(incomingBytes: number, force = false): Promise<number> {
+  const entries = await listHistory();
+  let count = entries.length;
+  let bytes = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const victims: string[] = [];
+  const kept = findKeptIds(entries);
+
+  // Oldest first
+  for (const entry of [...entries].reverse()) {
+    const overCap = count + 1 > HISTORY_MAX_ENTRIES || bytes + incomingBytes > HISTORY_MAX_BYTES;
+    if (!overCap && !(force && victims.length === 0)) break;
+    if (kept.has(entry.id)) continue;
+    victims.push(entry.id);
+    count--;
+    bytes -= entry.sizeBytes;
+  }
+
+  if (victims.length > 0) {
+    await withStore(STORES.history, 'readwrite', async store => {
+      for (const id of victims) await requestToPromise(store.delete(id));
+    });
+  }
+  return victims.length;
+}
+
+/** Stores a finished generation. Throws only if the entry can't fit even after evicting everything unpinned. */
+export async function saveToHistory(audio: GeneratedAudio, meta: GenerationMeta): Promise<HistoryEntry> {
+  const wav = createWavBlob(base64ToPcm(audio.base64Audio), audio.sampleRate);
+  const entry: HistoryEntry = {
+    ...meta,
+    durationSeconds: audio.durationSeconds,
+    sampleRate: audio.sampleRate,
+    sizeBytes: wav.size,
+    wav,
+    segments: audio.segments,
+    fit: audio.fit,
+    timing: audio.timing,
+    pinned: false,
+  };
+  return saveHistoryEntry(entry);
+}
+
+/** Stores an entry as it is, e.g. a take imported with a project. */
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<HistoryEntry> {
+  await evict(entry.sizeBytes);
+  for (;;) {
+    try {
+      await withStore(STORES.history, 'readwrite', store => requestToPromise(store.put(entry)));
+      return entry;
+    } catch (err) {
+      // The browser's own quota is smaller than our caps: make room and try again
+      if (!isQuotaError(err) || (await evict(entry.sizeBytes, true)) === 0) throw err;
+    }
+  }
+}
+
+/** Rebuilds a playable GeneratedAudio from a stored entry. */
+export async function restoreFromHistory(entry: HistoryEntry): Promise<GeneratedAudio> {
+  const { pcm, sampleRate } = parseWav(new Uint8Array(await entry.wav.arrayBuffer()));
+  const { id, text, voiceId, providerId, mode, settings, createdAt, projectId } = entry;
+  return {
+    ...pcmToGeneratedAudio(pcm, sampleRate),
+    segments: entry.segments,
+    fit: entry.fit,
+    timing: entry.timing,
+    meta: { id, text, voiceId, providerId, mode, settings, createdAt, projectId },
+  };
+}
+
+export interface StorageUsage {
+  historyBytes: number;
+  /** Origin-wide figures from the Storage API, when the browser provides them. */
+  usedBytes?: number;
+  quotaBytes?: number;
+}
+
+export async function getStorageUsage(entries?: HistoryEntry[]): Promise<StorageUsage> {
+  const list = entries || await listHistory();
+  const historyBytes = list.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  if (!navigator.storage?.estimate) return { historyBytes };
+  const { usage, quota } = await navigator.storage.estimate();
+  return { historyBytes, usedBytes: usage, quotaBytes: quota };
+}
+
+/** Asks the browser not to clear our storage under pressure. Best effort. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  await openDb();
+  return navigator.storage?.persist ? navigator.storage.persist() : false;
+}
@@ -0,0 +1,205 @@
+import { ChunkJob, DialogueLine, LanguageOption, SegmentOverride, VoiceOption } from '../types';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '../constants';
+import { fnv1a } from '../utils/hash';
+
+/**
+ * Languages of a script. The text is split into segments (paragraphs, or
+ * turns in dialogue mode), each segment's language is detected, and a
+ * segment whose voice isn't tagged for that language is routed to one that
+ * is. Overrides, keyed by the segment's text, replace either step by hand.
+ */
+
+export function getLanguage(code: string | undefined): LanguageOption | undefined {
+  return LANGUAGES.find(language => language.code === code);
+}
+
+// --- Detection ---
+
+const ARABIC_LETTER = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/g;
+const LATIN_LETTER = /[A-Za-z\u00C0-\u024F]/g;
+const FRENCH_ACCENT = /[éèêëàâçîïôûùœ]/g;
+
+// Frequent words that are rare in the other language ("a", "on", "en" are in both, so left out)
+const FRENCH_WORDS = new Set([
+  'le', 'la', 'les', 'des', 'du', 'un', 'une', 'et', 'est', 'que', 'qui', 'dans', 'pour', 'pas', 'sur', 'au', 'aux',
+  'avec', 'ce', 'cette', 'ces', 'il', 'elle', 'ils', 'elles', 'nous', 'vous', 'je', 'ne', 'se', 'sont', 'être', 'été',
+  'plus', 'par', 'mais', 'ou', 'où', 'son', 'sa', 'ses', 'leur', 'très', 'aussi', 'comme', 'fait', 'entre', 'depuis',
+]);
+const ENGLISH_WORDS = new Set([
+  'the', 'of', 'and', 'to', 'in', 'is', 'that', 'it', 'for', 'was', 'are', 'with', 'as', 'be', 'this', 'by', 'at',
+  'from', 'have', 'not', 'but', 'or', 'an', 'they', 'you', 'he', 'she', 'we', 'his', 'her', 'which', 'will', 'would',
+  'there', 'their', 'been', 'has', 'had', 'what', 'when', 'who', 'can', 'were', 'about', 'into', 'than', 'more',
+]);
+// l'homme, d'abord, qu'il, c'est…
+const FRENCH_ELISION = /^(l|d|qu|j|n|s|c|m|t)['’]\p{L}/u;
+
+const MIN_LETTERS = 12; // Below this, a paragraph follows the one before it
+
+/** The language of `text` (markup is ignored), or undefined when there is too little to tell. */
+export function detectLanguage(text: string): string | undefined {
+  const plain = text.replace(/\[[^\]]*\]|[*\\]/g, ' ');
+  const arabic = plain.match(ARABIC_LETTER)?.length ?? 0;
+  const latin = plain.match(LATIN_LETTER)?.length ?? 0;
+  if (arabic + latin < MIN_LETTERS) return undefined;
+  if (arabic > latin) return 'ar';
+
+  let french = (plain.match(FRENCH_ACCENT)?.length ?? 0) / 2;
+  let english = 0;
+  for (const word of plain.toLowerCase().match(/[\p{L}'’]+/gu) || []) {
+    if (FRENCH_WORDS.has(word) || FRENCH_ELISION.test(word)) french++;
+    else if (ENGLISH_WORDS.has(word)) english++;
+  }
+  if (french > english) return 'fr';
+  if (english > french) return 'en';
+  return undefined;
+}
+
+// --- Segments ---
+
+export interface TextSegment {
+  /** Stable while the segment's text is unchanged; overrides are stored under it. */
+  key: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  /** Character range in the source text, as [start, end). */
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+const segmentKey = (text: string) => `seg_${fnv1a(text.trim()).toString(16).padStart(8, '0')}`;
+
+/** Paragraphs of `source`, or one segment per dialogue turn when the parsed `lines` are given. */
+export function findSegments(source: string, lines?: DialogueLine[]): TextSegment[] {
+  const sourceLines = source.split(/\r?\n/);
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of sourceLines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+  const range = (startLine: number, endLine: number) => ({
+    start: lineStarts[startLine - 1],
+    end: lineStarts[endLine - 1] + sourceLines[endLine - 1].length,
+  });
+
+  if (lines) {
+    return lines.map(line => ({
+      key: segmentKey(line.text),
+      startLine: line.lineNumber,
+      endLine: line.lineNumber,
+      ...range(line.lineNumber, line.lineNumber),
+      text: line.text,
+      speaker: line.speaker,
+    }));
+  }
+
+  const segments: TextSegment[] = [];
+  let startLine = 0;
+  sourceLines.forEach((line, i) => {
+    const lineNumber = i + 1;
+    if (line.trim() && !startLine) startLine = lineNumber;
+    const isLast = lineNumber === sourceLines.length;
+    if (startLine && (!line.trim() || isLast)) {
+      const endLine = line.trim() ? lineNumber : lineNumber - 1;
+      const { start, end } = range(startLine, endLine);
+      const text = source.slice(start, end).trim();
+      segments.push({ key: segmentKey(text), startLine, endLine, start, end, text });
+      startLine = 0;
+    }
+  });
+  return segments;
+}
+
+// --- Routing ---
+
+export interface RoutingOptions {
+  voices: VoiceOption[];
+  /** Voices the active engine can use. */
+  availableVoiceIds: string[];
+  /** The voice chosen for each language in the language panel. */
+  languageVoices: Record<string, string>;
+}
+
+export function isVoiceTaggedFor(voice: VoiceOption, language: string, languageVoices: Record<string, string>): boolean {
+  return voice.languages.includes(language) || languageVoices[language] === voice.id;
+}
+
+/**
+ * The voice that reads `language` in place of `voiceId`: the voice itself
+ * when it is tagged for the language, else the one chosen for the language,
+ * else the closest tagged voice (same gender, then same pitch). Falls back
+ * to `voiceId` when no voice is tagged for the language.
+ */
+export function routeVoice(voiceId: string, language: string, { voices, availableVoiceIds, languageVoices }: RoutingOptions): string {
+  const voice = voices.find(v => v.id === voiceId);
+  if (!voice || isVoiceTaggedFor(voice, language, languageVoices)) return voiceId;
+  if (languageVoices[language] && availableVoiceIds.includes(languageVoices[language])) return languageVoices[language];
+
+  const candidates = voices.filter(v => availableVoiceIds.includes(v.id) && v.languages.includes(language));
+  const closeness = (v: VoiceOption) => (v.gender === voice.gender ? 2 : 0) + (v.pitch === voice.pitch ? 1 : 0);
+  const best = candidates.reduce<VoiceOption | undefined>((found, v) => (!found || closeness(v) > closeness(found) ? v : found), undefined);
+  return best?.id ?? voiceId;
+}
+
+export interface PlannedSegment extends TextSegment {
+  detected?: string;
+  language: string;
+  voiceId: string;
+  /** The segment's voice is not the one it would otherwise get. */
+  routed: boolean;
+  /** False when routing found no voice tagged for the language. */
+  covered: boolean;
+  override?: SegmentOverride;
+}
+
+/**
+ * Decides each segment's language and voice. An undetectable segment takes
+ * the language of the one before it. `baseVoiceId` is the voice a segment
+ * gets without routing (the selected voice, or the turn's speaker voice).
+ */
+export function planSegments(
+  segments: TextSegment[],
+  baseVoiceId: (segment: TextSegment) => string,
+  overrides: Record<string, SegmentOverride>,
+  options: RoutingOptions
+): PlannedSegment[] {
+  const detections = segments.map(segment => detectLanguage(segment.text));
+  let previous = detections.find(Boolean) ?? DEFAULT_LANGUAGE;
+
+  return segments.map((segment, i) => {
+    const override = overrides[segment.key];
+    const language = override?.language || detections[i] || previous;
+    previous = language;
+
+    const base = baseVoiceId(segment);
+    const voiceId = override?.voiceId && options.availableVoiceIds.includes(override.voiceId)
+      ? override.voiceId
+      : routeVoice(base, language, options);
+    const voice = options.voices.find(v => v.id === voiceId);
+    return {
+      ...segment,
+      detected: detections[i],
+      language,
+      voiceId,
+      routed: voiceId !== base,
+      covered: !!voice && isVoiceTaggedFor(voice, language, options.languageVoices),
+      override,
+    };
+  });
+}
+
+/** The planned language and voice for a source line, for `createTextJobs` and `createDialogueJobs`. */
+export function createSegmentRoute(plan: PlannedSegment[]): (lineNumber: number) => Pick<ChunkJob, 'voiceId' | 'language'> {
+  return lineNumber => {
+    const segment = plan.find(s => lineNumber >= s.startLine && lineNumber <= s.endLine);
+    return segment ? { voiceId: segment.voiceId, language: segment.language } : {};
+  };
+}
+
+/** Drops overrides whose segment no longer exists, so edited paragraphs don't leave stale entries behind. */
+export function pruneOverrides(overrides: Record<string, SegmentOverride>, segments: TextSegment[]): Record<string, SegmentOverride> {
+  const keys = new Set(segments.map(segment => segment.key));
+  return Object.fromEntries(Object.entries(overrides).filter(([key]) => keys.has(key)));
+}
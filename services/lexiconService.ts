@@ -0,0 +1,245 @@
+import { Lexicon, LexiconEntry } from '../types';
+import { parseCsv, toCsv } from '../utils/csv';
+
+/**
+ * Pronunciation dictionaries: terms the voices get wrong, mapped to a
+ * respelling they read correctly (e.g. "Nginx" → "engine x"). Applied to
+ * each chunk right before it is sent, so the script itself stays untouched.
+ */
+
+const LEXICONS_STORAGE_KEY = 'gemini_tts_lexicons';
+const ENABLED_STORAGE_KEY = 'gemini_tts_lexicons_enabled';
+
+// --- Storage ---
+
+export function listLexicons(): Lexicon[] {
+  try {
+    return JSON.parse(localStorage.getItem(LEXICONS_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function storeLexicons(lexicons: Lexicon[]): void {
+  localStorage.setItem(LEXICONS_STORAGE_KEY, JSON.stringify(lexicons));
+}
+
+export function createLexicon(name: string, entries: LexiconEntry[] = []): Lexicon {
+  const lexicon: Lexicon = {
+    id: `lexicon_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    entries,
+    updatedAt: Date.now(),
+  };
+  storeLexicons([...listLexicons(), lexicon]);
+  return lexicon;
+}
+
+/** Updates the dictionary, or adds it if it isn't stored yet (e.g. one that came with a project file). */
+export function saveLexicon(lexicon: Lexicon): Lexicon {
+  const saved = { ...lexicon, updatedAt: Date.now() };
+  const lexicons = listLexicons();
+  storeLexicons(lexicons.some(l => l.id === saved.id) ? lexicons.map(l => (l.id === saved.id ? saved : l)) : [...lexicons, saved]);
+  return saved;
+}
+
+export function deleteLexicon(id: string): void {
+  storeLexicons(listLexicons().filter(l => l.id !== id));
+  saveEnabledLexiconIds(loadEnabledLexiconIds().filter(enabledId => enabledId !== id));
+}
+
+/** Dictionaries switched on for the current script. */
+export function loadEnabledLexiconIds(): string[] {
+  try {
+    const ids = JSON.parse(localStorage.getItem(ENABLED_STORAGE_KEY) || '[]');
+    return Array.isArray(ids) ? ids : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveEnabledLexiconIds(ids: string[]): void {
+  localStorage.setItem(ENABLED_STORAGE_KEY, JSON.stringify(ids));
+}
+
+/** Entries of the enabled dictionaries, in list order; on overlap the first dictionary wins. */
+export function getActiveEntries(lexicons: Lexicon[], enabledIds: string[]): LexiconEntry[] {
+  return lexicons.filter(l => enabledIds.includes(l.id)).flatMap(l => l.entries);
+}
+
+// --- Applying ---
+
+export interface LexiconMatch {
+  start: number;
+  end: number;
+  entry: LexiconEntry;
+}
+
+// Only syntax characters may be escaped in a unicode-mode pattern
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+function createPattern(entry: LexiconEntry): RegExp {
+  const term = escapeRegExp(entry.term);
+  // \b only knows ASCII letters, so "Café" or "Ελλάδα" need explicit Unicode boundaries
+  const source = entry.wholeWord ? `(?<![\\p{L}\\p{N}_])${term}(?![\\p{L}\\p{N}_])` : term;
+  return new RegExp(source, entry.caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Non-overlapping matches in text order. Where matches overlap the earlier
+ * one wins, then the longer one, so "Gemini TTS" beats "TTS" inside it.
+ */
+export function findLexiconMatches(text: string, entries: LexiconEntry[]): LexiconMatch[] {
+  const candidates: (LexiconMatch & { order: number })[] = [];
+  entries.forEach((entry, order) => {
+    if (!entry.term) return;
+    for (const match of text.matchAll(createPattern(entry))) {
+      candidates.push({ start: match.index!, end: match.index! + match[0].length, entry, order });
+    }
+  });
+  candidates.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start) || a.order - b.order);
+
+  const matches: LexiconMatch[] = [];
+  let cursor = 0;
+  for (const { start, end, entry } of candidates) {
+    if (start < cursor) continue;
+    matches.push({ start, end, entry });
+    cursor = end;
+  }
+  return matches;
+}
+
+/** Replaces every matched term with its respelling in a single pass, so replacements are never re-matched. */
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  if (entries.length === 0) return text;
+  let result = '';
+  let cursor = 0;
+  for (const match of findLexiconMatches(text, entries)) {
+    result += text.slice(cursor, match.start) + match.entry.replacement;
+    cursor = match.end;
+  }
+  return result + text.slice(cursor);
+}
+
+// --- Import / Export ---
+
+export interface LexiconImportResult {
+  name: string;
+  entries: LexiconEntry[];
+  issues: { lineNumber: number; message: string }[];
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+function parseFlag(value: unknown, fallback: boolean): boolean | null {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (text === '') return fallback;
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return null;
+}
+
+function toEntry(term: unknown, replacement: unknown, caseSensitive: unknown, wholeWord: unknown): LexiconEntry | string {
+  const termText = typeof term === 'string' ? term.trim() : '';
+  const replacementText = typeof replacement === 'string' ? replacement.trim() : '';
+  if (!termText) return 'Entry has no term.';
+  if (!replacementText) return `"${termText}" has no replacement.`;
+  const caseFlag = parseFlag(caseSensitive, false);
+  const wordFlag = parseFlag(wholeWord, true);
+  if (caseFlag === null || wordFlag === null) return `"${termText}": options must be true or false.`;
+  return { term: termText, replacement: replacementText, caseSensitive: caseFlag, wholeWord: wordFlag };
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'Imported dictionary';
+
+/**
+ * JSON as written by `exportLexiconJson` ({ name, entries }), a bare array
+ * of entries, or a plain { "term": "respelling" } object.
+ */
+export function parseLexiconJson(source: string, fileName: string): LexiconImportResult {
+  const name = baseName(fileName);
+  let data: unknown;
+  try {
+    data = JSON.parse(source);
+  } catch (err) {
+    return { name, entries: [], issues: [{ lineNumber: 1, message: `Not valid JSON: ${err instanceof Error ? err.message : err}` }] };
+  }
+
+  const container = data && typeof data === 'object' && !Array.isArray(data) ? data as Record<string, unknown> : null;
+  const list = Array.isArray(data) ? data : Array.isArray(container?.entries) ? container!.entries as unknown[] : null;
+  const result: LexiconImportResult = {
+    name: typeof container?.name === 'string' && container.name.trim() ? container.name.trim() : name,
+    entries: [],
+    issues: [],
+  };
+
+  if (!list) {
+    // Plain mapping: every key is a term
+    Object.entries(container || {}).forEach(([term, replacement], i) => {
+      const entry = toEntry(term, replacement, undefined, undefined);
+      if (typeof entry === 'string') result.issues.push({ lineNumber: i + 1, message: entry });
+      else result.entries.push(entry);
+    });
+    return result;
+  }
+
+  list.forEach((item, i) => {
+    const record = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const entry = toEntry(record.term, record.replacement ?? record.respelling, record.caseSensitive, record.wholeWord);
+    if (typeof entry === 'string') result.issues.push({ lineNumber: i + 1, message: entry });
+    else result.entries.push(entry);
+  });
+  return result;
+}
+
+/**
+ * CSV with `term` and `replacement` (or `respelling`) columns and optional
+ * `case_sensitive` / `whole_word` columns. Without a recognizable header,
+ * the columns are taken in that order.
+ */
+export function parseLexiconCsv(source: string, fileName: string): LexiconImportResult {
+  const rows = parseCsv(source);
+  const result: LexiconImportResult = { name: baseName(fileName), entries: [], issues: [] };
+  if (rows.length === 0) return result;
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const hasHeader = header.includes('term');
+  const column = (names: string[], fallback: number) => (hasHeader ? header.findIndex(cell => names.includes(cell)) : fallback);
+  const termColumn = column(['term'], 0);
+  const replacementColumn = column(['replacement', 'respelling'], 1);
+  const caseColumn = column(['case_sensitive', 'casesensitive'], 2);
+  const wordColumn = column(['whole_word', 'wholeword'], 3);
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, i) => {
+    const lineNumber = i + (hasHeader ? 2 : 1);
+    if (!row.some(cell => cell.trim())) return;
+    const cell = (index: number) => (index >= 0 ? row[index] : undefined);
+    const entry = toEntry(cell(termColumn), cell(replacementColumn), cell(caseColumn), cell(wordColumn));
+    if (typeof entry === 'string') result.issues.push({ lineNumber, message: entry });
+    else result.entries.push(entry);
+  });
+  return result;
+}
+
+export function parseLexiconFile(source: string, fileName: string): LexiconImportResult {
+  return fileName.toLowerCase().endsWith('.csv') ? parseLexiconCsv(source, fileName) : parseLexiconJson(source, fileName);
+}
+
+export function exportLexiconJson(lexicon: Lexicon): string {
+  return JSON.stringify({ name: lexicon.name, entries: lexicon.entries }, null, 2);
+}
+
+export function exportLexiconCsv(lexicon: Lexicon): string {
+  return toCsv([
+    ['term', 'replacement', 'case_sensitive', 'whole_word'],
+    ...lexicon.entries.map(e => [e.term, e.replacement, String(e.caseSensitive), String(e.wholeWord)]),
+  ]);
+}
+
+export function getLexiconFileName(lexicon: Lexicon, extension: 'json' | 'csv'): string {
+  const slug = lexicon.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'lexicon';
+  return `${slug}.${extension}`;
+}
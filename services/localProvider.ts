@@ -0,0 +1,83 @@
+import { GeneratedAudio, SpeechStyle, TTSProvider, VoiceOption } from '../types';
+import { pcmToGeneratedAudio, PCM_SAMPLE_RATE } from '../utils/audioUtils';
+import { fnv1a } from '../utils/hash';
+import { EmptyAudioError } from './ttsErrors';
+import { getPaceRate } from './deliveryService';
+import { PREBUILT_VOICES } from './voiceCatalog';
+
+/**
+ * Offline provider for CI, demos and working without network access.
+ * It produces no speech: each word becomes a short tone (or silence) whose
+ * length follows the word length, so durations scale with the text like
+ * real output. The same text and voice always yield identical PCM.
+ */
+
+export type LocalProviderMode = 'tone' | 'silence';
+
+export interface LocalProviderOptions {
+  mode?: LocalProviderMode;
+  /** Simulated round-trip time, so loading states are visible. */
+  latencyMs?: number;
+}
+
+const MS_PER_CHAR = 55;
+const MIN_WORD_MS = 120;
+const WORD_GAP_MS = 70;
+const SENTENCE_GAP_MS = 320;
+const FADE_MS = 8;
+const AMPLITUDE = 0.25 * 32767;
+
+function baseFrequency(voice: VoiceOption): number {
+  const [low, high] = voice.gender === 'Female' ? [180, 260] : [95, 150];
+  return low + (fnv1a(voice.realVoiceId) % (high - low));
+}
+
+/** `speed` scales the pace like the delivery setting does for real voices (0.5 = half speed). */
+export function synthesizeLocally(text: string, voice: VoiceOption, mode: LocalProviderMode = 'tone', sampleRate: number = PCM_SAMPLE_RATE, speed = 1): Int16Array {
+  const words = text.split(/\s+/).filter(Boolean);
+  const msToSamples = (ms: number) => Math.round((ms / 1000 / speed) * sampleRate);
+  const base = baseFrequency(voice);
+
+  const layout = words.map(word => ({
+    word,
+    samples: msToSamples(Math.max(MIN_WORD_MS, word.length * MS_PER_CHAR)),
+    gap: msToSamples(/[.!?…]["'”’)]*$/.test(word) ? SENTENCE_GAP_MS : WORD_GAP_MS),
+  }));
+  const total = layout.reduce((sum, w) => sum + w.samples + w.gap, 0);
+  const pcm = new Int16Array(total);
+  if (mode === 'silence') return pcm;
+
+  const fade = msToSamples(FADE_MS);
+  let offset = 0;
+  for (const { word, samples, gap } of layout) {
+    // Vary pitch per word (+/- 2 semitones) so the output isn't a flat drone
+    const semitones = (fnv1a(word.toLowerCase()) % 5) - 2;
+    const frequency = base * 2 ** (semitones / 12);
+    for (let i = 0; i < samples; i++) {
+      const envelope = Math.min(1, i / fade, (samples - i) / fade);
+      pcm[offset + i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * AMPLITUDE * envelope);
+    }
+    offset += samples + gap;
+  }
+  return pcm;
+}
+
+export function createLocalProvider(options: LocalProviderOptions = {}): TTSProvider {
+  const { mode = 'tone', latencyMs = 200 } = options;
+
+  return {
+    id: 'local',
+    name: mode === 'tone' ? 'Local (offline tones)' : 'Local (offline silence)',
+    model: 'local',
+    metered: false,
+    supportedVoiceIds: PREBUILT_VOICES.map(v => v.id),
+    synthesize: async (text: string, voice: VoiceOption, style?: SpeechStyle): Promise<GeneratedAudio> => {
+      if (latencyMs > 0) await new Promise(resolve => setTimeout(resolve, latencyMs));
+      const pcm = synthesizeLocally(text, voice, mode, PCM_SAMPLE_RATE, getPaceRate(style?.pace));
+      if (pcm.length === 0) throw new EmptyAudioError();
+      return pcmToGeneratedAudio(pcm);
+    },
+  };
+}
+
+export const localProvider = createLocalProvider();
@@ -0,0 +1,308 @@
+import { AudioSegment, GeneratedAudio, PostProcessReport, PostProcessSettings } from '../types';
+import { DEFAULT_POST_PROCESS_SETTINGS, MAX_PAUSE_OPTIONS_MS, PEAK_CEILING_DB, SILENCE_THRESHOLD_DB, TARGET_LUFS, TRIM_PADDING_MS } from '../constants';
+import { base64ToPcm, pcmToGeneratedAudio } from '../utils/audioUtils';
+import { applyGainWithLimiter, dbToGain, measureLoudness } from '../utils/loudness';
+import { resamplePcm } from '../utils/resample';
+import { mapTimingTrack } from './timingService';
+
+/**
+ * Offline finishing for generated audio: pause compression, silence
+ * trimming, a ducked music bed, fades and loudness normalization. Every
+ * step is a pure function over samples (floats on the 16-bit scale), so the
+ * chain runs the same in the browser and on plain buffers in a test.
+ */
+
+const FRAME_MS = 10;
+const DUCK_LOOKAHEAD_MS = 120; // The bed starts dipping just before the first word
+const DUCK_HOLD_MS = 300;      // and stays down through the gaps between words
+const DUCK_ATTACK_MS = 80;
+const DUCK_RELEASE_MS = 600;
+
+export interface MusicBed {
+  name: string;
+  pcm: Int16Array;
+  sampleRate: number;
+}
+
+/** Silence removed from the audio: where it started, in the audio it was cut from, and how long it was. */
+export interface SilenceCut {
+  atSeconds: number;
+  removedSeconds: number;
+}
+
+// --- Settings ---
+
+const SETTINGS_STORAGE_KEY = 'gemini_tts_post_process';
+
+export function loadPostProcessSettings(): PostProcessSettings {
+  try {
+    const saved: Partial<PostProcessSettings> = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    const settings = { ...DEFAULT_POST_PROCESS_SETTINGS, ...saved };
+    if (!MAX_PAUSE_OPTIONS_MS.includes(settings.maxPauseMs)) settings.maxPauseMs = DEFAULT_POST_PROCESS_SETTINGS.maxPauseMs;
+    return settings;
+  } catch {
+    return DEFAULT_POST_PROCESS_SETTINGS;
+  }
+}
+
+export function savePostProcessSettings(settings: PostProcessSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+// --- Silence ---
+
+interface SampleRange {
+  start: number;
+  end: number;
+}
+
+/** Per 10 ms frame: is it quieter than SILENCE_THRESHOLD_DB? */
+function findSilentFrames(samples: Float32Array, sampleRate: number): { frameSize: number; silent: boolean[] } {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const threshold = 32768 * dbToGain(SILENCE_THRESHOLD_DB);
+  const silent: boolean[] = [];
+  for (let start = 0; start < samples.length; start += frameSize) {
+    const end = Math.min(samples.length, start + frameSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    silent.push(Math.sqrt(sum / (end - start)) < threshold);
+  }
+  return { frameSize, silent };
+}
+
+function findSilences(samples: Float32Array, sampleRate: number): SampleRange[] {
+  const { frameSize, silent } = findSilentFrames(samples, sampleRate);
+  const ranges: SampleRange[] = [];
+  for (let f = 0; f < silent.length;) {
+    if (!silent[f]) {
+      f++;
+      continue;
+    }
+    const start = f;
+    while (f < silent.length && silent[f]) f++;
+    ranges.push({ start: start * frameSize, end: Math.min(samples.length, f * frameSize) });
+  }
+  return ranges;
+}
+
+function removeRanges(samples: Float32Array, ranges: SampleRange[], sampleRate: number): { samples: Float32Array; cuts: SilenceCut[] } {
+  const removed = ranges.reduce((sum, r) => sum + r.end - r.start, 0);
+  const out = new Float32Array(samples.length - removed);
+  let read = 0;
+  let write = 0;
+  for (const range of ranges) {
+    out.set(samples.subarray(read, range.start), write);
+    write += range.start - read;
+    read = range.end;
+  }
+  out.set(samples.subarray(read), write);
+  const cuts = ranges.map(r => ({ atSeconds: r.start / sampleRate, removedSeconds: (r.end - r.start) / sampleRate }));
+  return { samples: out, cuts };
+}
+
+/** Cuts leading and trailing silence down to `paddingMs`. Audio that is silent throughout is left alone. */
+export function trimSilence(samples: Float32Array, sampleRate: number, paddingMs: number = TRIM_PADDING_MS): { samples: Float32Array; cuts: SilenceCut[] } {
+  const silences = findSilences(samples, sampleRate);
+  const padding = Math.round((paddingMs / 1000) * sampleRate);
+  const ranges: SampleRange[] = [];
+  const first = silences[0];
+  if (first && first.start === 0 && first.end < samples.length && first.end > padding) {
+    ranges.push({ start: 0, end: first.end - padding });
+  }
+  const last = silences[silences.length - 1];
+  if (last && last.end === samples.length && last.start > 0 && last.end - last.start > padding) {
+    ranges.push({ start: last.start + padding, end: last.end });
+  }
+  return removeRanges(samples, ranges, sampleRate);
+}
+
+/** Shortens every pause between words that is longer than `maxPauseMs`, keeping its edges so speech isn't clipped. */
+export function compressPauses(samples: Float32Array, sampleRate: number, maxPauseMs: number): { samples: Float32Array; cuts: SilenceCut[] } {
+  const keep = Math.round((maxPauseMs / 1000) * sampleRate);
+  const ranges = findSilences(samples, sampleRate)
+    .filter(r => r.start > 0 && r.end < samples.length && r.end - r.start > keep)
+    .map(r => ({ start: r.start + (keep >> 1), end: r.end - (keep - (keep >> 1)) }));
+  return removeRanges(samples, ranges, sampleRate);
+}
+
+/** Where a moment of the audio ends up once `cuts` are removed; moments inside a cut land where it was made. */
+export function mapThroughCuts(seconds: number, cuts: SilenceCut[]): number {
+  let mapped = seconds;
+  for (const cut of cuts) {
+    if (seconds <= cut.atSeconds) break;
+    mapped -= Math.min(cut.removedSeconds, seconds - cut.atSeconds);
+  }
+  return mapped;
+}
+
+// --- Fades ---
+
+/** Raised-cosine fade in and out; both are shortened to half the audio if it is too short for them. */
+export function applyFades(samples: Float32Array, sampleRate: number, fadeInMs: number, fadeOutMs: number): Float32Array {
+  const out = samples.slice();
+  const half = out.length >> 1;
+  const fadeIn = Math.min(half, Math.round((fadeInMs / 1000) * sampleRate));
+  const fadeOut = Math.min(half, Math.round((fadeOutMs / 1000) * sampleRate));
+  const curve = (x: number) => 0.5 - 0.5 * Math.cos(Math.PI * x);
+  for (let i = 0; i < fadeIn; i++) out[i] *= curve(i / fadeIn);
+  for (let i = 0; i < fadeOut; i++) out[out.length - 1 - i] *= curve(i / fadeOut);
+  return out;
+}
+
+// --- Music bed ---
+
+/** Per-sample gain for the bed: `duckingDb` while the speech is audible, 0 dB between sentences. */
+export function createDuckingEnvelope(speech: Float32Array, sampleRate: number, duckingDb: number): Float32Array {
+  const { frameSize, silent } = findSilentFrames(speech, sampleRate);
+  const lookahead = Math.round(DUCK_LOOKAHEAD_MS / FRAME_MS);
+  const hold = Math.round(DUCK_HOLD_MS / FRAME_MS);
+  const active = silent.map((_, f) => silent.slice(Math.max(0, f - hold), f + lookahead + 1).some(s => !s));
+
+  const ducked = dbToGain(duckingDb);
+  const attack = 1 - Math.exp(-1000 / (DUCK_ATTACK_MS * sampleRate));
+  const release = 1 - Math.exp(-1000 / (DUCK_RELEASE_MS * sampleRate));
+  const envelope = new Float32Array(speech.length);
+  let gain = active[0] ? ducked : 1;
+  for (let i = 0; i < speech.length; i++) {
+    const target = active[Math.floor(i / frameSize)] ? ducked : 1;
+    gain += (target - gain) * (target < gain ? attack : release);
+    envelope[i] = gain;
+  }
+  return envelope;
+}
+
+/**
+ * Lays `music` (same sample rate, looped as needed) under the speech,
+ * `musicLevelDb` relative to the speech's loudness and ducked while it plays.
+ */
+export function mixMusicBed(
+  speech: Float32Array,
+  music: Float32Array,
+  sampleRate: number,
+  musicLevelDb: number,
+  duckingDb: number,
+  loudness: { speech?: number; music?: number } = {}
+): Float32Array {
+  const musicLufs = loudness.music ?? measureLoudness(music, sampleRate);
+  if (music.length === 0 || !Number.isFinite(musicLufs)) return speech.slice();
+  const speechLufs = loudness.speech ?? measureLoudness(speech, sampleRate);
+  const gain = dbToGain((Number.isFinite(speechLufs) ? speechLufs : TARGET_LUFS) + musicLevelDb - musicLufs);
+
+  const envelope = createDuckingEnvelope(speech, sampleRate, duckingDb);
+  return speech.map((s, i) => s + music[i % music.length] * gain * envelope[i]);
+}
+
+// --- Loudness ---
+
+/** Brings integrated loudness to `targetLufs`, limiting peaks to PEAK_CEILING_DB. */
+export function normalizeLoudness(
+  samples: Float32Array,
+  sampleRate: number,
+  targetLufs: number = TARGET_LUFS,
+  loudness: number = measureLoudness(samples, sampleRate)
+): Float32Array {
+  if (!Number.isFinite(loudness)) return samples.slice();
+  const normalized = applyGainWithLimiter(samples, targetLufs - loudness, PEAK_CEILING_DB, sampleRate);
+  // Heavy limiting takes some loudness back off; one more pass makes most of it up
+  const shortfall = targetLufs - measureLoudness(normalized, sampleRate);
+  return shortfall > 0.5 ? applyGainWithLimiter(normalized, shortfall, PEAK_CEILING_DB, sampleRate) : normalized;
+}
+
+// --- Chain ---
+
+export interface ProcessedPcm {
+  pcm: Int16Array;
+  /** Where a moment of the input ends up in the output. */
+  mapTime: (seconds: number) => number;
+  report: PostProcessReport;
+}
+
+// A music bed stays the same while the settings are tweaked: resample and measure it once per rate
+const preparedMusic = new WeakMap<MusicBed, { sampleRate: number; samples: Float32Array; lufs: number }>();
+
+function prepareMusic(music: MusicBed, sampleRate: number): { samples: Float32Array; lufs: number } {
+  const cached = preparedMusic.get(music);
+  if (cached?.sampleRate === sampleRate) return cached;
+  const samples = Float32Array.from(music.sampleRate === sampleRate ? music.pcm : resamplePcm(music.pcm, music.sampleRate, sampleRate));
+  const prepared = { sampleRate, samples, lufs: measureLoudness(samples, sampleRate) };
+  preparedMusic.set(music, prepared);
+  return prepared;
+}
+
+/** Runs the enabled steps in the order PostProcessSettings lists them. */
+export function processPcm(pcm: Int16Array, sampleRate: number, settings: PostProcessSettings, music?: MusicBed): ProcessedPcm {
+  let samples = Float32Array.from(pcm);
+  const inputLufs = measureLoudness(samples, sampleRate);
+  // Loudness of `samples` until a step changes them, so nothing is measured twice
+  let lufs: number | undefined = inputLufs;
+  const cutSteps: SilenceCut[][] = [];
+
+  if (settings.maxPauseMs > 0) {
+    const compressed = compressPauses(samples, sampleRate, settings.maxPauseMs);
+    samples = compressed.samples;
+    cutSteps.push(compressed.cuts);
+    if (compressed.cuts.length > 0) lufs = undefined;
+  }
+  if (settings.trimSilence) {
+    const trimmed = trimSilence(samples, sampleRate);
+    samples = trimmed.samples;
+    cutSteps.push(trimmed.cuts);
+    if (trimmed.cuts.length > 0) lufs = undefined;
+  }
+  if (music) {
+    const bed = prepareMusic(music, sampleRate);
+    samples = mixMusicBed(samples, bed.samples, sampleRate, settings.musicLevelDb, settings.duckingDb, { speech: lufs, music: bed.lufs });
+    lufs = undefined;
+  }
+  if (settings.fadeInMs > 0 || settings.fadeOutMs > 0) {
+    samples = applyFades(samples, sampleRate, settings.fadeInMs, settings.fadeOutMs);
+    lufs = undefined;
+  }
+  if (settings.normalize) {
+    samples = normalizeLoudness(samples, sampleRate, TARGET_LUFS, lufs);
+    lufs = undefined;
+  }
+
+  const out = Int16Array.from(samples, s => Math.max(-32768, Math.min(32767, Math.round(s))));
+  return {
+    pcm: out,
+    mapTime: (seconds) => cutSteps.reduce((t, cuts) => mapThroughCuts(t, cuts), seconds),
+    report: {
+      originalSeconds: pcm.length / sampleRate,
+      removedSeconds: (pcm.length - out.length) / sampleRate,
+      inputLufs,
+      outputLufs: lufs ?? measureLoudness(samples, sampleRate),
+      musicName: music?.name,
+    },
+  };
+}
+
+/** The processed copy of `audio`, with its segments and timing moved to match. */
+export function postProcessAudio(audio: GeneratedAudio, settings: PostProcessSettings, music?: MusicBed): GeneratedAudio {
+  const { pcm, mapTime, report } = processPcm(base64ToPcm(audio.base64Audio), audio.sampleRate, settings, music);
+  return {
+    ...audio,
+    ...pcmToGeneratedAudio(pcm, audio.sampleRate),
+    segments: audio.segments?.map((segment): AudioSegment => ({
+      ...segment,
+      startSeconds: mapTime(segment.startSeconds),
+      endSeconds: mapTime(segment.endSeconds),
+    })),
+    timing: audio.timing && mapTimingTrack(audio.timing, mapTime),
+    postProcess: report,
+  };
+}
+
+/** Decodes any format the browser can play into mono PCM at `sampleRate`. */
+export async function decodeMusicFile(file: File, sampleRate: number): Promise<MusicBed> {
+  // A context at the speech rate resamples while decoding
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  const buffer = await context.decodeAudioData(await file.arrayBuffer());
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const pcm = new Int16Array(buffer.length);
+  for (let i = 0; i < pcm.length; i++) {
+    const mixed = channels.reduce((sum, channel) => sum + channel[i], 0) / channels.length;
+    pcm[i] = Math.max(-32768, Math.min(32767, Math.round(mixed * 32767)));
+  }
+  return { name: file.name, pcm, sampleRate };
+}
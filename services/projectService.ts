@@ -0,0 +1,198 @@
+import { HistoryEntry, Lexicon, Project, ProjectWorkspace, VoiceAlias } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../constants';
+import { requestToPromise, STORES, withStore } from './db';
+import { createGenerationId, deleteProjectTakes, listHistory, saveHistoryEntry } from './historyStore';
+import { listLexicons, saveLexicon } from './lexiconService';
+import { isBuiltInAlias, listAliases, saveAlias } from './voiceCatalog';
+import { createZip, readZip, ZipEntry } from '../utils/zip';
+
+/**
+ * Named projects, stored in IndexedDB. A project holds what the editor
+ * shows (text, voices, delivery, duration); its takes are the history
+ * entries generated while it was open.
+ *
+ * Crash recovery: every edit is written synchronously to localStorage
+ * before the debounced save to IndexedDB. A snapshot that is still there,
+ * and newer than the stored project, on the next start is an edit the
+ * save never finished.
+ */
+
+export function createProjectId(): string {
+  return `project_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// --- Storage ---
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await withStore(STORES.projects, 'readonly', store => requestToPromise(store.getAll() as IDBRequest<Project[]>));
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<Project | undefined> {
+  return withStore(STORES.projects, 'readonly', store => requestToPromise(store.get(id) as IDBRequest<Project | undefined>));
+}
+
+export async function saveProject(project: Project): Promise<Project> {
+  await withStore(STORES.projects, 'readwrite', store => requestToPromise(store.put(project)));
+  return project;
+}
+
+export async function createProject(name: string, workspace: ProjectWorkspace): Promise<Project> {
+  const now = Date.now();
+  return saveProject({ id: createProjectId(), name, workspace, createdAt: now, updatedAt: now });
+}
+
+/** Deletes the project and its takes. */
+export async function deleteProject(id: string): Promise<void> {
+  await withStore(STORES.projects, 'readwrite', store => requestToPromise(store.delete(id)));
+  await deleteProjectTakes(id);
+  if (readRecoverySnapshot()?.id === id) localStorage.removeItem(RECOVERY_STORAGE_KEY);
+}
+
+/** Compares what the editor would restore, ignoring names and dates. */
+export function isSameWorkspace(a: ProjectWorkspace, b: ProjectWorkspace): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// --- Active project & recovery ---
+
+const ACTIVE_STORAGE_KEY = 'gemini_tts_active_project';
+const RECOVERY_STORAGE_KEY = 'gemini_tts_project_recovery';
+
+export function saveActiveProjectId(id: string): void {
+  localStorage.setItem(ACTIVE_STORAGE_KEY, id);
+}
+
+export function writeRecoverySnapshot(project: Project): void {
+  try {
+    localStorage.setItem(RECOVERY_STORAGE_KEY, JSON.stringify(project));
+  } catch {
+    // A script too large for localStorage is only protected by the autosave
+  }
+}
+
+function readRecoverySnapshot(): Project | null {
+  try {
+    return JSON.parse(localStorage.getItem(RECOVERY_STORAGE_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+/** Drops the snapshot once `saved` reached IndexedDB, unless a later edit has replaced it since. */
+export function clearRecoverySnapshot(saved: Project): void {
+  const snapshot = readRecoverySnapshot();
+  if (snapshot && snapshot.id === saved.id && snapshot.updatedAt <= saved.updatedAt) {
+    localStorage.removeItem(RECOVERY_STORAGE_KEY);
+  }
+}
+
+export interface StartupProject {
+  project: Project;
+  /** Edits that hadn't been saved when the page last closed were restored. */
+  recovered: boolean;
+}
+
+/** The project to open on start: the last one open, else the latest, else a new one from `workspace`. */
+export async function openStartupProject(workspace: ProjectWorkspace): Promise<StartupProject> {
+  const activeId = localStorage.getItem(ACTIVE_STORAGE_KEY);
+  let project = (activeId && await getProject(activeId)) || (await listProjects())[0];
+  if (!project) project = await createProject('Untitled project', workspace);
+
+  const snapshot = readRecoverySnapshot();
+  const recovered = !!snapshot && snapshot.id === project.id && snapshot.updatedAt > project.updatedAt;
+  if (recovered) {
+    project = await saveProject(snapshot!);
+    clearRecoverySnapshot(project);
+  }
+  saveActiveProjectId(project.id);
+  return { project, recovered };
+}
+
+// --- Project files ---
+
+const FILE_FORMAT = 'gemini-tts-project';
+const FILE_VERSION = 1;
+
+type TakeRecord = Omit<HistoryEntry, 'wav'> & { file: string };
+
+/** project.json inside a project file. */
+interface ProjectFile {
+  format: typeof FILE_FORMAT;
+  version: number;
+  project: Project;
+  takes: TakeRecord[];
+  // What the workspace refers to by id, so the project sounds the same on another machine
+  lexicons: Lexicon[];
+  aliases: VoiceAlias[];
+}
+
+export function getProjectFileName(project: Project): string {
+  const slug = project.name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'project';
+  return `${slug}.${PROJECT_FILE_EXTENSION}`;
+}
+
+/** The project, its takes as WAV files, and the dictionaries and aliases it uses, in one ZIP. */
+export async function exportProjectFile(project: Project): Promise<Blob> {
+  const takes = (await listHistory()).filter(entry => entry.projectId === project.id);
+  const { voiceId, speakerVoices, languageVoices = {}, segmentOverrides = {} } = project.workspace;
+  const voiceIds = new Set([
+    voiceId,
+    ...Object.values(speakerVoices),
+    ...Object.values(languageVoices),
+    ...Object.values(segmentOverrides).flatMap(override => override.voiceId || []),
+    ...takes.map(t => t.voiceId),
+  ]);
+  const manifest: ProjectFile = {
+    format: FILE_FORMAT,
+    version: FILE_VERSION,
+    project,
+    takes: takes.map(({ wav, ...take }) => ({ ...take, file: `takes/${take.id}.wav` })),
+    lexicons: listLexicons().filter(lexicon => project.workspace.lexiconIds.includes(lexicon.id)),
+    aliases: listAliases().filter(alias => voiceIds.has(alias.id) && !isBuiltInAlias(alias.id)),
+  };
+
+  const encoder = new TextEncoder();
+  return createZip([
+    { name: 'project.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) },
+    ...await Promise.all(takes.map(async take => ({
+      name: `takes/${take.id}.wav`,
+      data: new Uint8Array(await take.wav.arrayBuffer()),
+      modified: new Date(take.createdAt),
+    }))),
+  ]);
+}
+
+/**
+ * Adds the project in `file` as a new project, with its takes in the
+ * history library. Dictionaries and aliases it brings are added unless
+ * one with the same id already exists here.
+ */
+export async function importProjectFile(file: File): Promise<Project> {
+  const notAProject = new Error(`"${file.name}" is not a project file.`);
+  let entries: ZipEntry[];
+  let manifest: ProjectFile;
+  try {
+    entries = await readZip(new Uint8Array(await file.arrayBuffer()));
+    const manifestEntry = entries.find(entry => entry.name === 'project.json');
+    manifest = JSON.parse(new TextDecoder().decode(manifestEntry?.data));
+  } catch {
+    throw notAProject;
+  }
+  if (manifest?.format !== FILE_FORMAT) throw notAProject;
+  if (manifest.version > FILE_VERSION) throw new Error('This project was saved by a newer version of the app.');
+
+  const knownLexicons = new Set(listLexicons().map(lexicon => lexicon.id));
+  manifest.lexicons.filter(lexicon => !knownLexicons.has(lexicon.id)).forEach(saveLexicon);
+  const knownAliases = new Set(listAliases().map(alias => alias.id));
+  manifest.aliases.filter(alias => !knownAliases.has(alias.id)).forEach(({ id, ...fields }) => saveAlias(fields, id));
+
+  // A fresh id, so importing the same file twice (or into the machine it came from) never overwrites anything
+  const project = await saveProject({ ...manifest.project, id: createProjectId(), updatedAt: Date.now() });
+  for (const { file: takeFile, ...take } of manifest.takes) {
+    const wav = entries.find(entry => entry.name === takeFile);
+    if (!wav) continue;
+    await saveHistoryEntry({ ...take, id: createGenerationId(), projectId: project.id, wav: new Blob([wav.data], { type: 'audio/wav' }) });
+  }
+  return project;
+}
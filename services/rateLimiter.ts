@@ -0,0 +1,237 @@
+import { RateLimits } from '../types';
+import { DEFAULT_RATE_LIMITS, MODEL_RATE_LIMITS, QUOTA_RESET_TIME_ZONE } from '../constants';
+import { TTSError } from './ttsErrors';
+
+/**
+ * Client-side guard for the provider's request quotas.
+ *
+ * - Requests per minute use a true sliding window over request timestamps.
+ * - Requests per day reset at the provider's boundary (midnight Pacific for
+ *   Gemini), not at UTC midnight.
+ * - State lives in localStorage, so every tab reads the same counters; a
+ *   BroadcastChannel (with the `storage` event as fallback) tells other tabs
+ *   to refresh, and the Web Locks API makes check-and-record atomic.
+ *
+ * Usage is tracked per scope: one API key (by fingerprint) on one model.
+ */
+
+export interface RateScope {
+  keyId: string;
+  model: string;
+}
+
+export interface UsageSnapshot {
+  limits: RateLimits;
+  minuteUsed: number;
+  dayUsed: number;
+  /** Ms until the next minute slot frees up (0 when one is free now). */
+  nextSlotInMs: number;
+  /** Epoch ms of the next daily reset. */
+  dayResetsAt: number;
+}
+
+interface ScopeState {
+  timestamps: number[];
+  dayStart: number;
+  dayCount: number;
+}
+
+const WINDOW_MS = 60_000;
+const STORAGE_PREFIX = 'gemini_tts_rl:';
+const OVERRIDES_KEY = 'gemini_tts_rate_limit_overrides';
+const CHANNEL_NAME = 'gemini_tts_rate_limiter';
+
+const scopeKey = (scope: RateScope) => `${scope.keyId}:${scope.model}`;
+
+// --- Daily boundary ---
+
+// Wall-clock ms since midnight in `timeZone`
+function msSinceMidnight(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  return ((get('hour') * 60 + get('minute')) * 60 + get('second')) * 1000 + (time % 1000);
+}
+
+/** Epoch ms of the most recent midnight in the quota time zone. */
+export function getDayStart(now: number = Date.now(), timeZone: string = QUOTA_RESET_TIME_ZONE): number {
+  const candidate = now - msSinceMidnight(now, timeZone);
+  // On DST change days wall-clock time and elapsed time differ by an hour; correct for it
+  const drift = msSinceMidnight(candidate, timeZone);
+  return drift === 0 ? candidate : candidate - (drift > 12 * 3600_000 ? drift - 24 * 3600_000 : drift);
+}
+
+export function getNextDayReset(now: number = Date.now()): number {
+  // Probe just past 24h and snap back to that day's midnight, which absorbs DST shifts
+  return getDayStart(getDayStart(now) + 25 * 3600_000);
+}
+
+// --- Limits ---
+
+function loadOverrides(): Record<string, RateLimits> {
+  try {
+    return JSON.parse(localStorage.getItem(OVERRIDES_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/** Per-key override (e.g. a paid-tier key), else the model's free-tier limits. */
+export function getLimits(scope: RateScope): RateLimits {
+  return loadOverrides()[scopeKey(scope)] || MODEL_RATE_LIMITS[scope.model] || DEFAULT_RATE_LIMITS;
+}
+
+export function setLimits(scope: RateScope, limits: RateLimits | null): void {
+  const overrides = loadOverrides();
+  if (limits) {
+    overrides[scopeKey(scope)] = limits;
+  } else {
+    delete overrides[scopeKey(scope)];
+  }
+  localStorage.setItem(OVERRIDES_KEY, JSON.stringify(overrides));
+  notify(scope);
+}
+
+// --- State ---
+
+function readState(scope: RateScope, now: number): ScopeState {
+  let state: ScopeState | null = null;
+  try {
+    state = JSON.parse(localStorage.getItem(STORAGE_PREFIX + scopeKey(scope)) || 'null');
+  } catch {
+    state = null;
+  }
+
+  const dayStart = getDayStart(now);
+  if (!state || state.dayStart !== dayStart) {
+    state = { timestamps: state?.timestamps || [], dayStart, dayCount: 0 };
+  }
+  state.timestamps = state.timestamps.filter(t => now - t < WINDOW_MS);
+  return state;
+}
+
+function writeState(scope: RateScope, state: ScopeState): void {
+  localStorage.setItem(STORAGE_PREFIX + scopeKey(scope), JSON.stringify(state));
+}
+
+export function getUsage(scope: RateScope, now: number = Date.now()): UsageSnapshot {
+  const limits = getLimits(scope);
+  const state = readState(scope, now);
+  const minuteFull = state.timestamps.length >= limits.rpm;
+  return {
+    limits,
+    minuteUsed: state.timestamps.length,
+    dayUsed: state.dayCount,
+    // The slot that frees first is the one taken by the oldest request still in the window
+    nextSlotInMs: minuteFull ? Math.max(0, state.timestamps[state.timestamps.length - limits.rpm] + WINDOW_MS - now) : 0,
+    dayResetsAt: getNextDayReset(now),
+  };
+}
+
+export function resetUsage(scope: RateScope): void {
+  localStorage.removeItem(STORAGE_PREFIX + scopeKey(scope));
+  notify(scope);
+}
+
+// --- Cross-tab sync ---
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+function emit() {
+  listeners.forEach(listener => listener());
+}
+
+function notify(scope: RateScope) {
+  channel?.postMessage({ scope: scopeKey(scope) });
+  emit();
+}
+
+channel?.addEventListener('message', emit);
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key?.startsWith(STORAGE_PREFIX) || e.key === OVERRIDES_KEY) emit();
+  });
+}
+
+/** Called whenever usage changes in this tab or any other. Returns an unsubscribe function. */
+export function subscribe(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// --- Acquiring slots ---
+
+async function withLock<T>(scope: RateScope, fn: () => T): Promise<T> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(CHANNEL_NAME + ':' + scopeKey(scope), fn);
+  }
+  return fn();
+}
+
+export interface AcquireOptions {
+  signal?: AbortSignal;
+  /** Called each time the request has to wait for a slot, with the expected wait. */
+  onWait?: (waitMs: number) => void;
+}
+
+/**
+ * Resolves once a request may be sent, recording it against the quota.
+ * Waits (queues) while the minute window is full; throws a QUOTA TTSError
+ * when the daily limit is exhausted, since waiting would take hours.
+ */
+export async function acquire(scope: RateScope, options: AcquireOptions = {}): Promise<void> {
+  const { signal, onWait } = options;
+
+  for (;;) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+
+    const waitMs = await withLock(scope, () => {
+      const now = Date.now();
+      const limits = getLimits(scope);
+      const state = readState(scope, now);
+
+      if (state.dayCount >= limits.rpd) {
+        throw new TTSError(`Daily limit reached (${limits.rpd}). It resets at ${new Date(getNextDayReset(now)).toLocaleTimeString()}.`, 'QUOTA', false);
+      }
+      if (state.timestamps.length < limits.rpm) {
+        state.timestamps.push(now);
+        state.dayCount++;
+        writeState(scope, state);
+        return 0;
+      }
+      return state.timestamps[state.timestamps.length - limits.rpm] + WINDOW_MS - now;
+    });
+
+    if (waitMs <= 0) {
+      notify(scope);
+      return;
+    }
+
+    onWait?.(waitMs);
+    await waitForChange(waitMs, signal);
+  }
+}
+
+// Sleeps until the slot should be free, waking early if another tab changes usage or limits
+function waitForChange(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      unsubscribe();
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms + 50);
+    const unsubscribe = subscribe(done);
+    signal?.addEventListener('abort', done);
+  });
+}
@@ -0,0 +1,98 @@
+import { DialogueLine } from '../types';
+
+/**
+ * Dialogue scripts are written one turn per line:
+ *
+ *   Host: Welcome back to the show.
+ *   Guest: Thanks for having me!
+ *
+ * Blank lines are ignored, and lines starting with `#` are comments.
+ */
+
+export interface ScriptIssue {
+  lineNumber: number; // 1-based, as shown in the editor
+  message: string;
+}
+
+export class ScriptParseError extends Error {
+  readonly issues: ScriptIssue[];
+
+  constructor(issues: ScriptIssue[]) {
+    const first = issues[0];
+    super(`Line ${first.lineNumber}: ${first.message}${issues.length > 1 ? ` (+${issues.length - 1} more)` : ''}`);
+    this.name = 'ScriptParseError';
+    this.issues = issues;
+  }
+}
+
+export interface DialogueScript {
+  lines: DialogueLine[];
+  /** Speaker names in order of first appearance. */
+  speakers: string[];
+}
+
+const MAX_SPEAKER_LENGTH = 40;
+const LINE_PATTERN = /^([^:]+?)\s*:\s*(.*)$/;
+const SPEAKER_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} ._'-]*$/u;
+
+/** Parses a dialogue script, collecting every problem before throwing. */
+export function parseScript(source: string): DialogueScript {
+  const lines: DialogueLine[] = [];
+  const speakers: string[] = [];
+  const issues: ScriptIssue[] = [];
+
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const lineNumber = i + 1;
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+
+    const match = line.match(LINE_PATTERN);
+    if (!match) {
+      issues.push({ lineNumber, message: 'Expected "Speaker: text".' });
+      return;
+    }
+
+    const [, speaker, text] = match;
+    if (speaker.length > MAX_SPEAKER_LENGTH || !SPEAKER_PATTERN.test(speaker)) {
+      issues.push({ lineNumber, message: `"${speaker.slice(0, MAX_SPEAKER_LENGTH)}" is not a valid speaker name.` });
+      return;
+    }
+    if (!text.trim()) {
+      issues.push({ lineNumber, message: `${speaker} has no text to say.` });
+      return;
+    }
+
+    if (!speakers.includes(speaker)) speakers.push(speaker);
+    lines.push({ lineNumber, speaker, text: text.trim() });
+  });
+
+  if (issues.length > 0) throw new ScriptParseError(issues);
+  if (lines.length === 0) throw new ScriptParseError([{ lineNumber: 1, message: 'The script has no dialogue lines.' }]);
+
+  return { lines, speakers };
+}
+
+/** Non-throwing variant for live validation while the user types. */
+export function tryParseScript(source: string): { script: DialogueScript | null; issues: ScriptIssue[] } {
+  try {
+    return { script: parseScript(source), issues: [] };
+  } catch (err) {
+    if (err instanceof ScriptParseError) return { script: null, issues: err.issues };
+    throw err;
+  }
+}
+
+/**
+ * Keeps the voices the user picked and gives every other speaker a
+ * supported voice, cycling through them so adjacent speakers differ.
+ */
+export function assignSpeakerVoices(speakers: string[], chosen: Record<string, string>, supportedVoiceIds: string[]): Record<string, string> {
+  const assigned: Record<string, string> = {};
+  speakers.forEach((speaker, i) => {
+    const voiceId = chosen[speaker];
+    assigned[speaker] = voiceId && supportedVoiceIds.includes(voiceId)
+      ? voiceId
+      : supportedVoiceIds[i % supportedVoiceIds.length];
+  });
+  return assigned;
+}
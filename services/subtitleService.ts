@@ -0,0 +1,101 @@
+import { SubtitleSettings, TimingTrack, WordTiming } from '../types';
+import { DEFAULT_SUBTITLE_SETTINGS, MAX_CUE_SECONDS, MIN_CUE_SECONDS, SUBTITLE_LINE_LENGTHS } from '../constants';
+
+/**
+ * Captions from a timing track. Cues never span two sentences, so each
+ * caption starts where a sentence starts; long sentences are split at
+ * word boundaries to respect the line length, line count and cue duration.
+ */
+
+export interface SubtitleCue {
+  startSeconds: number;
+  endSeconds: number;
+  lines: string[];
+  speaker?: string;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+const SETTINGS_STORAGE_KEY = 'gemini_tts_subtitle_settings';
+
+export function loadSubtitleSettings(): SubtitleSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    return {
+      maxLineChars: SUBTITLE_LINE_LENGTHS.includes(saved.maxLineChars) ? saved.maxLineChars : DEFAULT_SUBTITLE_SETTINGS.maxLineChars,
+      maxLines: saved.maxLines === 1 || saved.maxLines === 2 ? saved.maxLines : DEFAULT_SUBTITLE_SETTINGS.maxLines,
+    };
+  } catch {
+    return DEFAULT_SUBTITLE_SETTINGS;
+  }
+}
+
+export function saveSubtitleSettings(settings: SubtitleSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function buildSubtitleCues(track: TimingTrack, { maxLineChars, maxLines }: SubtitleSettings): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const sentence of track.sentences) {
+    let lines: string[] = [];
+    let words: WordTiming[] = [];
+    const flush = () => {
+      if (words.length === 0) return;
+      cues.push({ startSeconds: words[0].startSeconds, endSeconds: words[words.length - 1].endSeconds, lines, speaker: sentence.speaker });
+      lines = [];
+      words = [];
+    };
+
+    for (const word of sentence.words) {
+      if (words.length > 0 && word.endSeconds - words[0].startSeconds > MAX_CUE_SECONDS) flush();
+      const line = lines[lines.length - 1];
+      if (line !== undefined && line.length + 1 + word.text.length <= maxLineChars) {
+        lines[lines.length - 1] = `${line} ${word.text}`;
+      } else {
+        if (lines.length >= maxLines) flush();
+        lines.push(word.text);
+      }
+      words.push(word);
+    }
+    flush();
+  }
+
+  // Short cues stay up a little longer, as long as they don't run into the next one
+  return cues.map((cue, i) => {
+    const next = cues[i + 1]?.startSeconds ?? Infinity;
+    return { ...cue, endSeconds: Math.max(cue.endSeconds, Math.min(cue.startSeconds + MIN_CUE_SECONDS, next)) };
+  });
+}
+
+/** `01:02:03,456` for SRT, `01:02:03.456` for WebVTT. */
+export function formatTimestamp(seconds: number, format: SubtitleFormat): string {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+  const time = `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}`;
+  return `${time}${format === 'srt' ? ',' : '.'}${pad(ms % 1000, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startSeconds, 'srt')} --> ${formatTimestamp(cue.endSeconds, 'srt')}\n${cue.lines.join('\n')}\n`)
+    .join('\n');
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** WebVTT with the speaker as a voice tag (`<v Host>`), which players can style or show. */
+export function toWebVtt(cues: SubtitleCue[]): string {
+  const body = cues.map(cue => {
+    const text = cue.lines.map(escapeVtt).join('\n');
+    return `${formatTimestamp(cue.startSeconds, 'vtt')} --> ${formatTimestamp(cue.endSeconds, 'vtt')}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ''}${text}\n`;
+  });
+  return ['WEBVTT\n', ...body].join('\n');
+}
+
+export function exportSubtitles(track: TimingTrack, format: SubtitleFormat, settings: SubtitleSettings): Blob {
+  const cues = buildSubtitleCues(track, settings);
+  return format === 'srt'
+    ? new Blob([toSrt(cues)], { type: 'application/x-subrip' })
+    : new Blob([toWebVtt(cues)], { type: 'text/vtt' });
+}
@@ -0,0 +1,277 @@
+import { SentenceTiming, TimingTrack, WordTiming } from '../types';
+import { MIN_ALIGNMENT_PAUSE_MS } from '../constants';
+
+/**
+ * Word and sentence timing without a speech recognizer. The text of every
+ * chunk is known, so only the timing has to be recovered: silences in the
+ * audio are matched to punctuation in the text, and the words between two
+ * matched pauses share that stretch of speech in proportion to their length.
+ */
+
+const FRAME_MS = 10;
+const SILENCE_RATIO = 0.08;      // Relative to the chunk's loud frames
+const MIN_SILENCE_LEVEL = 150;   // Absolute floor for near-silent recordings
+const UNMATCHED_PAUSE_COST = 0.02; // Squared drift at which a pause is rather treated as a breath
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+const CLAUSE_END = /[,;:—–]["'”’)\]]*$/;
+
+interface Token {
+  text: string;
+  weight: number;
+  newlineBefore: boolean;
+}
+
+function tokenize(text: string): Token[] {
+  let previousEnd = 0;
+  return Array.from(text.matchAll(/\S+/g), (match) => {
+    const letters = (match[0].match(/\p{L}/gu) || []).length;
+    // Digits take longer to say than they take to write ("2024" → "twenty twenty-four")
+    const digits = (match[0].match(/\p{N}/gu) || []).length;
+    const newlineBefore = text.slice(previousEnd, match.index).includes('\n');
+    previousEnd = match.index! + match[0].length;
+    return { text: match[0], weight: Math.max(1, letters + digits * 3), newlineBefore };
+  });
+}
+
+interface Pause {
+  start: number; // Seconds from the start of the chunk
+  end: number;
+}
+
+/** Speech span and the pauses inside it, from 10 ms RMS frames. */
+function detectPauses(pcm: Int16Array, sampleRate: number): { start: number; end: number; pauses: Pause[] } {
+  const frameSize = Math.max(1, Math.round((sampleRate * FRAME_MS) / 1000));
+  const frameCount = Math.floor(pcm.length / frameSize);
+  const levels = new Float64Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) sum += pcm[i] * pcm[i];
+    levels[f] = Math.sqrt(sum / frameSize);
+  }
+
+  const sorted = Array.from(levels).sort((a, b) => a - b);
+  const loud = sorted[Math.floor(sorted.length * 0.95)] || 0;
+  const threshold = Math.max(MIN_SILENCE_LEVEL, loud * SILENCE_RATIO);
+  const seconds = (frame: number) => (frame * frameSize) / sampleRate;
+
+  let first = 0;
+  while (first < frameCount && levels[first] < threshold) first++;
+  let last = frameCount - 1;
+  while (last > first && levels[last] < threshold) last--;
+  if (first >= frameCount) return { start: 0, end: pcm.length / sampleRate, pauses: [] };
+
+  const minFrames = Math.ceil(MIN_ALIGNMENT_PAUSE_MS / FRAME_MS);
+  const pauses: Pause[] = [];
+  for (let f = first; f <= last;) {
+    if (levels[f] >= threshold) {
+      f++;
+      continue;
+    }
+    const runStart = f;
+    while (f <= last && levels[f] < threshold) f++;
+    if (f - runStart >= minFrames) pauses.push({ start: seconds(runStart), end: seconds(f) });
+  }
+  return { start: seconds(first), end: seconds(last + 1), pauses };
+}
+
+/**
+ * Pairs pauses with word boundaries (after word `j`) so that both sit at the
+ * same fraction of the speech, in order. A pause may stay unpaired (a breath
+ * mid-clause), at a fixed cost; a boundary may go without a pause for free.
+ */
+function matchPauses(pauses: Pause[], boundaries: number[], tokens: Token[], span: { start: number; end: number }): Map<number, Pause> {
+  const pauseTotal = pauses.reduce((sum, p) => sum + p.end - p.start, 0);
+  const voiced = Math.max(1e-6, span.end - span.start - pauseTotal);
+  let voicedBefore = 0;
+  let cursor = span.start;
+  const pauseFractions = pauses.map(p => {
+    voicedBefore += p.start - cursor;
+    cursor = p.end;
+    return voicedBefore / voiced;
+  });
+
+  const totalWeight = tokens.reduce((sum, t) => sum + t.weight, 0);
+  const cumulative: number[] = [];
+  tokens.reduce((sum, t, i) => (cumulative[i] = sum + t.weight), 0);
+  const boundaryFractions = boundaries.map(j => cumulative[j] / totalWeight);
+
+  const n = pauses.length;
+  const m = boundaries.length;
+  const cost = Array.from({ length: n + 1 }, () => new Float64Array(m + 1).fill(Infinity));
+  const step = Array.from({ length: n + 1 }, () => new Uint8Array(m + 1)); // 0 skip boundary, 1 skip pause, 2 match
+  for (let j = 0; j <= m; j++) cost[0][j] = 0;
+  for (let i = 1; i <= n; i++) {
+    cost[i][0] = cost[i - 1][0] + UNMATCHED_PAUSE_COST;
+    step[i][0] = 1;
+    for (let j = 1; j <= m; j++) {
+      const drift = pauseFractions[i - 1] - boundaryFractions[j - 1];
+      const options = [cost[i][j - 1], cost[i - 1][j] + UNMATCHED_PAUSE_COST, cost[i - 1][j - 1] + drift * drift];
+      const best = options.indexOf(Math.min(...options));
+      cost[i][j] = options[best];
+      step[i][j] = best;
+    }
+  }
+
+  const matched = new Map<number, Pause>();
+  for (let i = n, j = m; i > 0;) {
+    const move = step[i][j];
+    if (move === 2) {
+      matched.set(boundaries[j - 1], pauses[i - 1]);
+      i--;
+      j--;
+    } else if (move === 1) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return matched;
+}
+
+/** Word timings within one chunk of audio, relative to the chunk's first sample. */
+function alignChunk(text: string, pcm: Int16Array, sampleRate: number): { tokens: Token[]; words: WordTiming[] } {
+  const tokens = tokenize(text);
+  if (tokens.length === 0) return { tokens, words: [] };
+
+  const span = detectPauses(pcm, sampleRate);
+  const boundaries = tokens.slice(0, -1).flatMap((t, j) => (SENTENCE_END.test(t.text) || CLAUSE_END.test(t.text) || tokens[j + 1].newlineBefore ? [j] : []));
+  const matched = matchPauses(span.pauses, boundaries, tokens, span);
+
+  // Anchored runs of words; each run fills the time between two matched pauses
+  const words: WordTiming[] = [];
+  let runStart = 0;
+  let runTime = span.start;
+  tokens.forEach((token, j) => {
+    const pause = matched.get(j);
+    if (!pause && j < tokens.length - 1) return;
+    const runEnd = pause ? pause.start : span.end;
+    const run = tokens.slice(runStart, j + 1);
+    const runWeight = run.reduce((sum, t) => sum + t.weight, 0);
+    let time = runTime;
+    run.forEach(t => {
+      const duration = ((runEnd - runTime) * t.weight) / runWeight;
+      words.push({ text: t.text, startSeconds: time, endSeconds: time + duration });
+      time += duration;
+    });
+    runStart = j + 1;
+    runTime = pause ? pause.end : span.end;
+  });
+  return { tokens, words };
+}
+
+export interface TimedChunk {
+  text: string;
+  pcm: Int16Array;
+  offsetSeconds: number; // Where the chunk starts in the stitched audio
+  speaker?: string;
+  lineNumber?: number;
+}
+
+/** Aligns every chunk and groups the words into sentences. */
+export function buildTimingTrack(chunks: TimedChunk[], sampleRate: number): TimingTrack {
+  const sentences: SentenceTiming[] = [];
+  for (const chunk of chunks) {
+    const { tokens, words } = alignChunk(chunk.text, chunk.pcm, sampleRate);
+    let current: WordTiming[] = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      sentences.push({
+        text: current.map(w => w.text).join(' '),
+        startSeconds: current[0].startSeconds,
+        endSeconds: current[current.length - 1].endSeconds,
+        speaker: chunk.speaker,
+        lineNumber: chunk.lineNumber,
+        words: current,
+      });
+      current = [];
+    };
+
+    words.forEach((word, i) => {
+      if (tokens[i].newlineBefore) flush();
+      current.push({ ...word, startSeconds: word.startSeconds + chunk.offsetSeconds, endSeconds: word.endSeconds + chunk.offsetSeconds });
+      if (SENTENCE_END.test(word.text)) flush();
+    });
+    flush();
+  }
+  return { sentences };
+}
+
+// --- Source positions ---
+
+// Markup tags and escapes are blanked out (keeping offsets) so words inside them are never matched
+const maskMarkup = (text: string) => text
+  .replace(/\[[^\]\n]*\]/g, tag => ' '.repeat(tag.length))
+  .replace(/\\(?=[*[])/g, ' ');
+
+const MAX_SEARCH_CHARS = 400; // How far ahead a word may be before it is given up as not found
+
+/**
+ * Locates every timed word in the text the user typed, in order, so the
+ * editor can highlight it. Words come from the chunk texts, which are the
+ * source minus markup and dialogue speaker prefixes.
+ */
+export function locateInSource(track: TimingTrack, source: string): TimingTrack {
+  const masked = maskMarkup(source);
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) if (source[i] === '\n') lineStarts.push(i + 1);
+
+  let cursor = 0;
+  let currentLine: number | undefined;
+  const sentences = track.sentences.map(sentence => {
+    if (sentence.lineNumber !== undefined && sentence.speaker && sentence.lineNumber !== currentLine) {
+      // Skip past the "Speaker:" prefix of a new dialogue turn
+      const lineStart = lineStarts[sentence.lineNumber - 1] ?? cursor;
+      const colon = source.indexOf(':', lineStart);
+      cursor = Math.max(cursor, colon >= 0 ? colon + 1 : lineStart);
+      currentLine = sentence.lineNumber;
+    }
+
+    const words = sentence.words.map(word => {
+      // Search without surrounding punctuation, which markup may separate from the word ("*word*,")
+      const core = word.text.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '') || word.text;
+      const index = masked.indexOf(core, cursor);
+      if (index < 0 || index - cursor > MAX_SEARCH_CHARS) return { ...word, charStart: undefined, charEnd: undefined };
+      cursor = index + core.length;
+      return { ...word, charStart: index, charEnd: cursor };
+    });
+    return { ...sentence, words };
+  });
+  return { sentences };
+}
+
+// --- Lookup ---
+
+export interface TimingPosition {
+  sentence: SentenceTiming;
+  word: WordTiming | null;
+}
+
+/** The sentence and word being spoken at `seconds`; between words, the word just finished. */
+export function findTimingAt(track: TimingTrack, seconds: number): TimingPosition | null {
+  const sentence = track.sentences.find(s => seconds >= s.startSeconds && seconds < s.endSeconds);
+  if (!sentence) return null;
+  let word: WordTiming | null = null;
+  for (const w of sentence.words) {
+    if (w.startSeconds > seconds) break;
+    word = w;
+  }
+  return { sentence, word };
+}
+
+/** Moves every timestamp through `map`, e.g. after silence was cut out of the audio. */
+export function mapTimingTrack(track: TimingTrack, map: (seconds: number) => number): TimingTrack {
+  return {
+    sentences: track.sentences.map(sentence => ({
+      ...sentence,
+      startSeconds: map(sentence.startSeconds),
+      endSeconds: map(sentence.endSeconds),
+      words: sentence.words.map(word => ({ ...word, startSeconds: map(word.startSeconds), endSeconds: map(word.endSeconds) })),
+    })),
+  };
+}
+
+/** Rescales a track after the audio was time-stretched by `factor`. */
+export function scaleTimingTrack(track: TimingTrack, factor: number): TimingTrack {
+  return mapTimingTrack(track, seconds => seconds * factor);
+}
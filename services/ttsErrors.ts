@@ -0,0 +1,91 @@
+/**
+ * Typed errors thrown by the TTS service layer. Callers should branch on
+ * `instanceof` (or `code`, when the error has to be stored as plain data)
+ * instead of matching on message text.
+ */
+
+export type TTSErrorCode = 'QUOTA' | 'AUTH' | 'SAFETY' | 'EMPTY_AUDIO' | 'NETWORK' | 'UNKNOWN';
+
+export class TTSError extends Error {
+  readonly code: TTSErrorCode;
+  /** True when the same request may succeed if sent again later. */
+  readonly retryable: boolean;
+
+  constructor(message: string, code: TTSErrorCode = 'UNKNOWN', retryable = false, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'TTSError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export class QuotaExceededError extends TTSError {
+  /** Server-suggested wait before retrying, when the 429 carried a RetryInfo. */
+  readonly retryAfterMs?: number;
+
+  constructor(message = 'Quota exceeded (429). The system is busy. Please wait a moment.', retryAfterMs?: number, cause?: unknown) {
+    super(message, 'QUOTA', true, cause);
+    this.name = 'QuotaExceededError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class AuthError extends TTSError {
+  constructor(message = 'The API key was rejected. Please select a valid key.', cause?: unknown) {
+    super(message, 'AUTH', false, cause);
+    this.name = 'AuthError';
+  }
+}
+
+export class SafetyBlockedError extends TTSError {
+  readonly reason: string;
+
+  constructor(reason: string, cause?: unknown) {
+    super(`The request was blocked by safety filters (${reason}). Please rephrase the text.`, 'SAFETY', false, cause);
+    this.name = 'SafetyBlockedError';
+    this.reason = reason;
+  }
+}
+
+export class EmptyAudioError extends TTSError {
+  constructor(message = 'The model returned no audio for this text. Please try again.') {
+    // Occasionally transient on the preview TTS models, so worth one more attempt
+    super(message, 'EMPTY_AUDIO', true);
+    this.name = 'EmptyAudioError';
+  }
+}
+
+export class NetworkError extends TTSError {
+  constructor(message = 'Network error while contacting the TTS service. Check your connection and try again.', cause?: unknown) {
+    super(message, 'NETWORK', true, cause);
+    this.name = 'NetworkError';
+  }
+}
+
+function parseRetryDelayMs(message: string): number | undefined {
+  // google.rpc.RetryInfo is serialized into the error body, e.g. "retryDelay": "23s"
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+}
+
+/** Maps anything thrown by the SDK or fetch onto the typed hierarchy above. */
+export function toTTSError(err: unknown): TTSError {
+  if (err instanceof TTSError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  const status = typeof err === 'object' && err !== null && 'status' in err && typeof err.status === 'number'
+    ? err.status
+    : undefined;
+
+  if (status === 429 || message.includes('RESOURCE_EXHAUSTED')) {
+    return new QuotaExceededError(undefined, parseRetryDelayMs(message), err);
+  }
+  if (status === 401 || status === 403 || message.includes('API_KEY_INVALID') || message.includes('PERMISSION_DENIED')) {
+    return new AuthError(undefined, err);
+  }
+  // fetch rejects with a TypeError when the request never got through; other TypeErrors are bugs, not network trouble
+  if ((status !== undefined && status >= 500) || message.includes('Failed to fetch')) {
+    return new NetworkError(undefined, err);
+  }
+  return new TTSError(message || 'Failed to generate speech. Please try again.', 'UNKNOWN', false, err);
+}
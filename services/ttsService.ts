@@ -0,0 +1,154 @@
+import { ApiKeyEntry, GeneratedAudio, SpeechStyle, TTSProvider, TTSProviderId } from '../types';
+import { geminiProvider } from './geminiService';
+import { localProvider } from './localProvider';
+import { toTTSError, TTSError } from './ttsErrors';
+import { acquire, getUsage, RateScope } from './rateLimiter';
+import { createCacheKey, getCachedAudio, hasCachedAudio, putCachedAudio } from './audioCache';
+import { getActiveApiKey, getFailoverOrder, listApiKeys, setActiveApiKey } from './apiKeyStore';
+import { recordUsage } from './usageStats';
+import { findVoice } from './voiceCatalog';
+import { createSpeechStyle, mergeSpeechStyles } from './deliveryService';
+
+export const PROVIDERS: Record<TTSProviderId, TTSProvider> = {
+  gemini: geminiProvider,
+  local: localProvider,
+};
+
+const PROVIDER_STORAGE_KEY = 'gemini_tts_provider';
+
+function isProviderId(value: unknown): value is TTSProviderId {
+  return typeof value === 'string' && value in PROVIDERS;
+}
+
+/**
+ * Resolution order: the choice saved from the UI, then `TTS_PROVIDER`
+ * from the environment (.env.local), then Gemini.
+ */
+export function getActiveProviderId(): TTSProviderId {
+  const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(PROVIDER_STORAGE_KEY) : null;
+  if (isProviderId(saved)) return saved;
+  if (isProviderId(process.env.TTS_PROVIDER)) return process.env.TTS_PROVIDER;
+  return 'gemini';
+}
+
+export function getActiveProvider(): TTSProvider {
+  return PROVIDERS[getActiveProviderId()];
+}
+
+export function setActiveProvider(id: TTSProviderId): void {
+  localStorage.setItem(PROVIDER_STORAGE_KEY, id);
+}
+
+/** Quota scope for `key`, or for the active key when omitted. */
+export function getRateScope(provider: TTSProvider = getActiveProvider(), key: ApiKeyEntry | undefined = getActiveApiKey()): RateScope {
+  return {
+    keyId: provider.metered ? key?.id ?? 'no_key' : 'offline',
+    model: provider.model,
+  };
+}
+
+/** Requests left today across every key a generation can fail over to. */
+export function getDailyRemaining(provider: TTSProvider = getActiveProvider()): number {
+  const keys = provider.metered ? listApiKeys() : [];
+  const scopes = keys.length > 0 ? keys.map(key => getRateScope(provider, key)) : [getRateScope(provider)];
+  return scopes.reduce((sum, scope) => {
+    const { limits, dayUsed } = getUsage(scope);
+    return sum + Math.max(0, limits.rpd - dayUsed);
+  }, 0);
+}
+
+export function isVoiceSupported(voiceId: string, provider: TTSProvider = getActiveProvider()): boolean {
+  const voice = findVoice(voiceId);
+  return !!voice && provider.supportedVoiceIds.includes(voice.realVoiceId);
+}
+
+export interface GenerateSpeechOptions {
+  /** Delivery instructions; part of the cache key. */
+  style?: SpeechStyle;
+  signal?: AbortSignal;
+  /** Called while the request is queued behind the rate limiter. */
+  onQueued?: (waitMs: number) => void;
+  /** Called once a slot is granted, right before the provider is called. */
+  onStart?: () => void;
+  /** Set to false to always call the provider. The result is still cached. */
+  useCache?: boolean;
+}
+
+// The voice, provider and style a request resolves to, and the cache entry they make up
+async function resolveRequest(text: string, voiceId: string, requestedStyle?: SpeechStyle) {
+  const voice = findVoice(voiceId);
+  if (!voice) {
+    throw new TTSError(`Unknown voice "${voiceId}".`);
+  }
+
+  const provider = getActiveProvider();
+  if (!isVoiceSupported(voiceId, provider)) {
+    throw new TTSError(`The voice "${voice.name}" is not available with the ${provider.name} engine.`);
+  }
+
+  // An alias's own delivery goes beneath the requested style
+  const style = mergeSpeechStyles(voice.delivery && createSpeechStyle(voice.delivery), requestedStyle);
+  const cacheKey = await createCacheKey({ text, realVoiceId: voice.realVoiceId, model: provider.model, style: style ? { ...style } : undefined });
+  return { voice, provider, style, cacheKey };
+}
+
+/** True when `generateSpeech` would answer from the cache, spending no request. */
+export async function isSpeechCached(text: string, voiceId: string, style?: SpeechStyle): Promise<boolean> {
+  try {
+    const { cacheKey } = await resolveRequest(text, voiceId, style);
+    return await hasCachedAudio(cacheKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Synthesizes `text` with the voice `voiceId` (a prebuilt voice or an alias) on the
+ * active provider, waiting for a rate-limit slot first. Cache hits return
+ * immediately and don't touch the rate limiter. When a key is out of quota
+ * (a 429, or its daily limit used up) the request fails over to the next
+ * key, which becomes the active one. Always throws a `TTSError` subclass on
+ * failure.
+ */
+export async function generateSpeech(text: string, voiceId: string, options: GenerateSpeechOptions = {}): Promise<GeneratedAudio> {
+  const { voice, provider, style, cacheKey } = await resolveRequest(text, voiceId, options.style);
+  if (options.useCache !== false) {
+    const cached = await getCachedAudio(cacheKey).catch(() => null);
+    if (cached) return cached;
+  }
+
+  const keys: (ApiKeyEntry | undefined)[] = provider.metered ? getFailoverOrder() : [undefined];
+  if (keys.length === 0) keys.push(undefined); // No key at all: let the provider report it
+  let quotaError: TTSError | undefined;
+  for (const key of keys) {
+    const scope = getRateScope(provider, key);
+    let audio: GeneratedAudio;
+    try {
+      await acquire(scope, { signal: options.signal, onWait: options.onQueued });
+    } catch (err) {
+      const error = toTTSError(err);
+      if (error.code !== 'QUOTA') throw error;
+      quotaError = error;
+      continue;
+    }
+    options.onStart?.();
+    try {
+      audio = await provider.synthesize(text, voice, style, key?.key, options.signal);
+    } catch (err) {
+      const error = toTTSError(err);
+      if (options.signal?.aborted) throw error; // Cancelled, not failed
+      recordUsage(scope, { errorCode: error.code });
+      if (error.code !== 'QUOTA') throw error;
+      quotaError = error;
+      continue;
+    }
+    recordUsage(scope, { characters: text.length, audioSeconds: audio.durationSeconds });
+    if (key && key !== keys[0]) setActiveApiKey(key.id);
+
+    // A cache that can't be written (private mode, full disk) must not fail the generation
+    putCachedAudio(cacheKey, audio).catch(err => console.warn('Could not cache audio', err));
+    return audio;
+  }
+  // Every key is out of quota: the last key's error says when to retry
+  throw quotaError!;
+}
@@ -0,0 +1,198 @@
+import { ApiKeyEntry } from '../types';
+import { AUDIO_TOKENS_PER_SECOND, MODEL_PRICING, TEXT_CHARS_PER_TOKEN, USAGE_RETENTION_DAYS } from '../constants';
+import { TTSErrorCode } from './ttsErrors';
+import { RateScope } from './rateLimiter';
+import { toCsv } from '../utils/csv';
+
+/**
+ * Usage history: one counter record per local calendar day, key and model,
+ * kept in localStorage for `USAGE_RETENTION_DAYS`. Unlike the rate limiter's
+ * counters, nothing here resets when the quota day rolls over or the key
+ * changes. Cache hits never reach the provider, so they aren't counted.
+ */
+
+export interface UsageCounters {
+  requests: number;
+  /** Text characters of the requests that succeeded (the part that is billed). */
+  characters: number;
+  audioSeconds: number;
+  errors: Partial<Record<TTSErrorCode, number>>;
+}
+
+export interface UsageRecord extends UsageCounters {
+  day: string; // YYYY-MM-DD, local time
+  keyId: string;
+  model: string;
+}
+
+export interface UsageEvent {
+  characters?: number;
+  audioSeconds?: number;
+  errorCode?: TTSErrorCode;
+}
+
+const STORAGE_KEY = 'gemini_tts_usage_stats';
+const DAY_MS = 24 * 3600_000;
+
+export const emptyCounters = (): UsageCounters => ({ requests: 0, characters: 0, audioSeconds: 0, errors: {} });
+
+/** Local calendar date as YYYY-MM-DD. */
+export function toDayKey(time: number | Date): string {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export function listUsage(): UsageRecord[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/** Counts one provider request against the scope's key and model. */
+export function recordUsage(scope: RateScope, event: UsageEvent, now: number = Date.now()): void {
+  const day = toDayKey(now);
+  const oldest = toDayKey(now - USAGE_RETENTION_DAYS * DAY_MS);
+  const records = listUsage().filter(record => record.day >= oldest);
+
+  let record = records.find(r => r.day === day && r.keyId === scope.keyId && r.model === scope.model);
+  if (!record) {
+    record = { day, keyId: scope.keyId, model: scope.model, ...emptyCounters() };
+    records.push(record);
+  }
+  record.requests++;
+  record.characters += event.characters ?? 0;
+  record.audioSeconds += event.audioSeconds ?? 0;
+  if (event.errorCode) record.errors[event.errorCode] = (record.errors[event.errorCode] ?? 0) + 1;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (err) {
+    // Statistics must never fail a generation
+    console.warn('Could not save usage statistics', err);
+  }
+  notify();
+}
+
+export function clearUsage(): void {
+  localStorage.removeItem(STORAGE_KEY);
+  notify();
+}
+
+// --- Aggregation ---
+
+export function addCounters(total: UsageCounters, counters: UsageCounters): UsageCounters {
+  const errors = { ...total.errors };
+  for (const [code, count] of Object.entries(counters.errors) as [TTSErrorCode, number][]) {
+    errors[code] = (errors[code] ?? 0) + count;
+  }
+  return {
+    requests: total.requests + counters.requests,
+    characters: total.characters + counters.characters,
+    audioSeconds: total.audioSeconds + counters.audioSeconds,
+    errors,
+  };
+}
+
+export const countErrors = (counters: UsageCounters) => Object.values(counters.errors).reduce((sum, n) => sum + (n ?? 0), 0);
+
+/** Estimated USD cost from list prices: text at ~4 characters per token, audio at 32 tokens per second. */
+export function estimateCost(model: string, counters: Pick<UsageCounters, 'characters' | 'audioSeconds'>): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  const inputTokens = counters.characters / TEXT_CHARS_PER_TOKEN;
+  const outputTokens = counters.audioSeconds * AUDIO_TOKENS_PER_SECOND;
+  return (inputTokens * pricing.inputPerMillionTokens + outputTokens * pricing.outputPerMillionTokens) / 1_000_000;
+}
+
+export type UsagePeriod = 'day' | 'week';
+
+export interface UsageBucket {
+  /** First day of the bucket, YYYY-MM-DD. */
+  start: string;
+  counters: UsageCounters;
+  cost: number;
+}
+
+// Monday of the week containing `time`
+function weekStart(time: number): Date {
+  const date = new Date(time);
+  date.setHours(12, 0, 0, 0); // Midday, so adding days never lands on the wrong side of a DST change
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date;
+}
+
+/** The last `count` days or weeks (Monday to Sunday), oldest first, including empty ones. */
+export function bucketUsage(records: UsageRecord[], period: UsagePeriod, count: number, now: number = Date.now()): UsageBucket[] {
+  const starts: string[] = [];
+  const anchor = period === 'week' ? weekStart(now) : new Date(now);
+  anchor.setHours(12, 0, 0, 0);
+  const step = period === 'week' ? 7 : 1;
+  for (let i = count - 1; i >= 0; i--) {
+    const date = new Date(anchor);
+    date.setDate(anchor.getDate() - i * step);
+    starts.push(toDayKey(date));
+  }
+
+  const buckets: UsageBucket[] = starts.map(start => ({ start, counters: emptyCounters(), cost: 0 }));
+  for (const record of records) {
+    // Buckets are sorted, so the record belongs to the last one starting on or before its day
+    let index = -1;
+    for (let i = 0; i < starts.length && starts[i] <= record.day; i++) index = i;
+    if (index < 0) continue;
+    if (period === 'day' && starts[index] !== record.day) continue;
+    buckets[index].counters = addCounters(buckets[index].counters, record);
+    buckets[index].cost += estimateCost(record.model, record);
+  }
+  return buckets;
+}
+
+// --- Export ---
+
+const ERROR_CODES: TTSErrorCode[] = ['QUOTA', 'AUTH', 'SAFETY', 'EMPTY_AUDIO', 'NETWORK', 'UNKNOWN'];
+
+/** One row per day, key and model, oldest first. Keys appear by name; the key itself is never exported. */
+export function usageToCsv(records: UsageRecord[], keys: ApiKeyEntry[]): string {
+  const keyName = (id: string) => keys.find(key => key.id === id)?.name ?? id;
+  const rows = [...records]
+    .sort((a, b) => a.day.localeCompare(b.day) || a.keyId.localeCompare(b.keyId) || a.model.localeCompare(b.model))
+    .map(record => [
+      record.day,
+      keyName(record.keyId),
+      record.keyId,
+      record.model,
+      record.requests,
+      record.characters,
+      record.audioSeconds.toFixed(1),
+      ...ERROR_CODES.map(code => record.errors[code] ?? 0),
+      estimateCost(record.model, record).toFixed(4),
+    ]);
+  return toCsv([
+    ['date', 'key', 'key_id', 'model', 'requests', 'characters', 'audio_seconds', ...ERROR_CODES.map(code => `errors_${code.toLowerCase()}`), 'estimated_cost_usd'],
+    ...rows,
+  ]);
+}
+
+// --- Change notifications ---
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+function notify() {
+  listeners.forEach(listener => listener());
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === STORAGE_KEY) notify();
+  });
+}
+
+/** Called after each recorded request, in this tab or another. */
+export function subscribeToUsage(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,163 @@
+import { VoiceAlias, VoiceOption, VoicePitch } from '../types';
+import { LANGUAGES } from '../constants';
+
+/**
+ * Every voice the app can speak with: the Gemini prebuilt voices, plus
+ * aliases that pair one of them with a delivery style under a name of
+ * their own. Aliases resolve to their prebuilt voice when synthesizing,
+ * with their style applied beneath the delivery panel's settings.
+ */
+
+type PrebuiltVoiceData = [name: string, gender: VoiceOption['gender'], pitch: VoicePitch, character: string, description: string, tags: string[]];
+
+// The prebuilt voices can speak every supported language, but they were tuned on American English
+const PREBUILT_VOICE_DATA: PrebuiltVoiceData[] = [
+  ['Zephyr', 'Female', 'High', 'Bright', 'Bright and clear, with an upbeat lift.', ['bright', 'energetic']],
+  ['Puck', 'Male', 'Medium', 'Upbeat', 'Upbeat and playful; good for casual content.', ['upbeat', 'casual']],
+  ['Charon', 'Male', 'Low', 'Informative', 'Informative and measured, like a documentary narrator.', ['informative', 'narration']],
+  ['Kore', 'Female', 'Medium', 'Firm', 'Firm and confident, calm under pressure.', ['firm', 'professional']],
+  ['Fenrir', 'Male', 'Medium', 'Excitable', 'Excitable and animated; suits promos and games.', ['excitable', 'energetic']],
+  ['Leda', 'Female', 'High', 'Youthful', 'Youthful and light.', ['youthful', 'light']],
+  ['Orus', 'Male', 'Low', 'Firm', 'Firm and grounded, with authority.', ['firm', 'authoritative']],
+  ['Aoede', 'Female', 'Medium', 'Breezy', 'Breezy and natural, experienced and professional.', ['breezy', 'professional']],
+  ['Callirrhoe', 'Female', 'Medium', 'Easy-going', 'Easy-going and relaxed.', ['easy-going', 'relaxed']],
+  ['Autonoe', 'Female', 'High', 'Bright', 'Bright and articulate.', ['bright', 'clear']],
+  ['Enceladus', 'Male', 'Low', 'Breathy', 'Breathy and soft-spoken; intimate reads.', ['breathy', 'soft']],
+  ['Iapetus', 'Male', 'Medium', 'Clear', 'Clear and neutral; good for tutorials.', ['clear', 'neutral']],
+  ['Umbriel', 'Male', 'Low', 'Easy-going', 'Easy-going and warm.', ['easy-going', 'warm']],
+  ['Algieba', 'Male', 'Low', 'Smooth', 'Smooth and steady.', ['smooth', 'calm']],
+  ['Despina', 'Female', 'Medium', 'Smooth', 'Smooth and polished.', ['smooth', 'polished']],
+  ['Erinome', 'Female', 'Medium', 'Clear', 'Clear and precise.', ['clear', 'precise']],
+  ['Algenib', 'Male', 'Low', 'Gravelly', 'Gravelly and textured.', ['gravelly', 'character']],
+  ['Rasalgethi', 'Male', 'Medium', 'Informative', 'Informative and explanatory.', ['informative', 'explainer']],
+  ['Laomedeia', 'Female', 'High', 'Upbeat', 'Upbeat and cheerful.', ['upbeat', 'cheerful']],
+  ['Achernar', 'Female', 'High', 'Soft', 'Soft and gentle.', ['soft', 'gentle']],
+  ['Alnilam', 'Male', 'Low', 'Firm', 'Firm and direct; suits announcements.', ['firm', 'direct']],
+  ['Schedar', 'Male', 'Medium', 'Even', 'Even and balanced.', ['even', 'neutral']],
+  ['Gacrux', 'Female', 'Low', 'Mature', 'Mature and assured.', ['mature', 'assured']],
+  ['Pulcherrima', 'Female', 'Medium', 'Forward', 'Forward and engaging.', ['forward', 'engaging']],
+  ['Achird', 'Male', 'Medium', 'Friendly', 'Friendly and approachable.', ['friendly', 'warm']],
+  ['Zubenelgenubi', 'Male', 'Low', 'Casual', 'Casual and conversational.', ['casual', 'conversational']],
+  ['Vindemiatrix', 'Female', 'Medium', 'Gentle', 'Gentle and reassuring.', ['gentle', 'calm']],
+  ['Sadachbia', 'Male', 'Medium', 'Lively', 'Lively and bright-eyed.', ['lively', 'energetic']],
+  ['Sadaltager', 'Male', 'Medium', 'Knowledgeable', 'Knowledgeable and composed; good for lectures.', ['knowledgeable', 'explainer']],
+  ['Sulafat', 'Female', 'Medium', 'Warm', 'Warm and inviting.', ['warm', 'friendly']],
+];
+
+// Voices tagged for each language beyond English. Each list spans both genders and
+// every pitch, so routing finds a close match for any voice without setup.
+const PREBUILT_LANGUAGE_VOICES: Record<string, string[]> = {
+  fr: ['Leda', 'Aoede', 'Gacrux', 'Puck', 'Algieba'],
+  ar: ['Autonoe', 'Kore', 'Gacrux', 'Iapetus', 'Charon'],
+};
+
+export const PREBUILT_VOICES: VoiceOption[] = PREBUILT_VOICE_DATA.map(([name, gender, pitch, character, description, tags]) => ({
+  id: name,
+  name,
+  gender,
+  description: `${character}. ${description}`,
+  realVoiceId: name,
+  language: 'en-US',
+  accent: 'American',
+  pitch,
+  tags,
+  languages: ['en', ...Object.keys(PREBUILT_LANGUAGE_VOICES).filter(code => PREBUILT_LANGUAGE_VOICES[code].includes(name))],
+}));
+
+// Kept under their original ids so history entries and presets that use them still resolve
+const BUILT_IN_ALIASES: VoiceAlias[] = [
+  {
+    id: 'Male_7',
+    name: 'Charles (Formal)',
+    baseVoiceId: 'Charon',
+    description: 'Formal, precise, business-oriented.',
+    delivery: { tone: 'formal, precise and businesslike', pace: 'normal' },
+  },
+  {
+    id: 'Male_10',
+    name: 'Chris (Calm)',
+    baseVoiceId: 'Charon',
+    description: 'Steady, low-pitch, relaxing.',
+    delivery: { tone: 'calm, steady and relaxing', pace: 'slow' },
+  },
+];
+
+const ALIASES_STORAGE_KEY = 'gemini_tts_voice_aliases';
+
+export function isBuiltInAlias(id: string): boolean {
+  return BUILT_IN_ALIASES.some(alias => alias.id === id);
+}
+
+/** Built-in aliases followed by the user's own. */
+export function listAliases(): VoiceAlias[] {
+  let custom: VoiceAlias[] = [];
+  try {
+    custom = typeof localStorage !== 'undefined' ? JSON.parse(localStorage.getItem(ALIASES_STORAGE_KEY) || '[]') : [];
+  } catch {
+    // Unreadable aliases are dropped rather than breaking the voice list
+  }
+  return [...BUILT_IN_ALIASES, ...custom];
+}
+
+function toVoiceOption(alias: VoiceAlias): VoiceOption | null {
+  const base = PREBUILT_VOICES.find(v => v.id === alias.baseVoiceId);
+  if (!base) return null;
+  return {
+    ...base,
+    id: alias.id,
+    name: alias.name,
+    description: alias.description || `${base.name}, ${alias.delivery.tone || 'neutral'}.`,
+    tags: Array.from(new Set(['alias', ...base.tags])),
+    languages: alias.languages?.length ? alias.languages : base.languages,
+    delivery: alias.delivery,
+  };
+}
+
+/** Prebuilt voices, then aliases. */
+export function listVoices(): VoiceOption[] {
+  return [...PREBUILT_VOICES, ...listAliases().flatMap(alias => toVoiceOption(alias) || [])];
+}
+
+export function findVoice(id: string): VoiceOption | undefined {
+  return PREBUILT_VOICES.find(v => v.id === id) || listVoices().find(v => v.id === id);
+}
+
+/** Creates the alias, or updates it when `id` is given (adding it under that id if it's unknown). Built-in aliases can't be changed. */
+export function saveAlias(fields: Omit<VoiceAlias, 'id'>, id?: string): VoiceAlias {
+  if (id && isBuiltInAlias(id)) throw new Error('Built-in voices cannot be edited. Create a new alias instead.');
+  const custom = listAliases().filter(alias => !isBuiltInAlias(alias.id));
+  const alias: VoiceAlias = { ...fields, id: id || `alias_${Date.now().toString(36)}` };
+  const next = custom.some(a => a.id === alias.id) ? custom.map(a => (a.id === alias.id ? alias : a)) : [...custom, alias];
+  localStorage.setItem(ALIASES_STORAGE_KEY, JSON.stringify(next));
+  return alias;
+}
+
+export function deleteAlias(id: string): void {
+  const custom = listAliases().filter(alias => !isBuiltInAlias(alias.id) && alias.id !== id);
+  localStorage.setItem(ALIASES_STORAGE_KEY, JSON.stringify(custom));
+}
+
+/** Voices the provider can synthesize, given its prebuilt voice ids. */
+export function getAvailableVoiceIds(voices: VoiceOption[], supportedVoiceIds: string[]): string[] {
+  return voices.filter(v => supportedVoiceIds.includes(v.realVoiceId)).map(v => v.id);
+}
+
+// --- Filtering ---
+
+export interface VoiceFilter {
+  query: string;
+  gender?: VoiceOption['gender'];
+  pitch?: VoicePitch;
+}
+
+/** Matches every word of the query against the name, description, tags, accent, languages and base voice. */
+export function filterVoices(voices: VoiceOption[], { query, gender, pitch }: VoiceFilter): VoiceOption[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return voices.filter(voice => {
+    if (gender && voice.gender !== gender) return false;
+    if (pitch && voice.pitch !== pitch) return false;
+    const languageNames = LANGUAGES.filter(language => voice.languages.includes(language.code)).map(language => language.name);
+    const haystack = [voice.name, voice.description, voice.accent, voice.language, voice.realVoiceId, ...voice.tags, ...languageNames].join(' ').toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+}
@@ -1,19 +1,315 @@
+import type { TTSErrorCode } from './services/ttsErrors';
+
+export type VoicePitch = 'Low' | 'Medium' | 'High';
+
 export interface VoiceOption {
   id: string;
   name: string;
   gender: 'Male' | 'Female';
   description: string;
   realVoiceId: string; // The actual ID sent to the API
+  language: string;    // BCP 47 tag of the language the voice was tuned on
+  accent: string;
+  pitch: VoicePitch;
+  tags: string[];
+  languages: string[]; // Language codes the voice is used for; text in any other language is routed to another voice
+  delivery?: DeliverySettings; // Aliases only: applied beneath the delivery panel's settings
+}
+
+/** A user-named voice: a prebuilt voice plus a delivery style of its own. */
+export interface VoiceAlias {
+  id: string;
+  name: string;
+  baseVoiceId: string;
+  description: string;
+  delivery: DeliverySettings;
+  languages?: string[]; // Defaults to the base voice's
 }
 
 export enum TTSStatus {
   IDLE = 'IDLE',
+  QUEUED = 'QUEUED', // Waiting for a rate-limit slot
   GENERATING = 'GENERATING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR'
 }
 
 export interface GeneratedAudio {
-  wavUrl: string;
-  base64Audio: string;
+  base64Audio: string; // Raw 16-bit little-endian mono PCM
+  sampleRate: number;
+  durationSeconds: number;
+  segments?: AudioSegment[]; // Per-speaker turns, for dialogue scripts
+  fit?: DurationFit;          // Set when the audio was stretched toward a target duration
+  meta?: GenerationMeta;      // What produced this audio; set once generation completes
+  fromCache?: boolean;        // Served from the audio cache without calling the provider
+  timing?: TimingTrack;       // When each sentence and word is spoken
+  postProcess?: PostProcessReport; // Set on audio that went through the post-processing chain
+}
+
+/** Everything needed to describe a generation and reproduce it. */
+export interface GenerationMeta {
+  id: string;
+  text: string;
+  voiceId: string;
+  providerId: TTSProviderId;
+  mode: InputMode;
+  settings: GenerationSettings;
+  createdAt: number;
+  projectId?: string; // The project the take was generated in
+}
+
+export interface GenerationSettings {
+  chunkMaxChars: number;
+  targetSeconds?: number;
+  fitToTarget?: boolean;
+  speakerVoices?: Record<string, string>; // Dialogue mode
+  delivery?: DeliverySettings;
+  lexiconIds?: string[]; // Pronunciation dictionaries that were switched on
+  languageVoices?: Record<string, string>;
+  segmentOverrides?: Record<string, SegmentOverride>;
+}
+
+export interface HistoryEntry extends GenerationMeta {
+  durationSeconds: number;
+  sampleRate: number;
+  sizeBytes: number;
+  wav: Blob;
+  segments?: AudioSegment[];
+  fit?: DurationFit;
+  timing?: TimingTrack;
+  pinned: boolean; // Pinned entries are never evicted
+}
+
+/** What a project restores into the editor. */
+export interface ProjectWorkspace {
+  text: string;
+  mode: InputMode;
+  voiceId: string;
+  speakerVoices: Record<string, string>;
+  delivery: DeliverySettings;
+  targetDuration: string; // Minutes, as typed
+  fitToTarget: boolean;
+  chunkMaxChars: number;
+  lexiconIds: string[];
+  // Missing from projects saved before language routing
+  languageVoices?: Record<string, string>; // Language code to the voice that reads it
+  segmentOverrides?: Record<string, SegmentOverride>; // Keyed by segment key
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  workspace: ProjectWorkspace;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DurationFit {
+  targetSeconds: number;
+  originalSeconds: number;
+  stretchFactor: number; // Output length / natural length
+}
+
+/** The offline chain applied to finished audio, in the order listed. */
+export interface PostProcessSettings {
+  enabled: boolean;
+  maxPauseMs: number;    // Longer pauses are shortened to this; 0 keeps them as they are
+  trimSilence: boolean;  // Leading and trailing
+  musicLevelDb: number;  // Bed loudness relative to the speech, when a bed is loaded
+  duckingDb: number;     // Extra bed reduction while someone speaks
+  fadeInMs: number;
+  fadeOutMs: number;
+  normalize: boolean;    // To TARGET_LUFS, with peaks held under PEAK_CEILING_DB
+}
+
+export interface PostProcessReport {
+  originalSeconds: number;
+  removedSeconds: number; // Silence trimmed or compressed away
+  inputLufs: number;
+  outputLufs: number;
+  musicName?: string;
+}
+
+export interface LanguageOption {
+  code: string; // ISO 639-1
+  name: string;
+  direction: 'ltr' | 'rtl';
+}
+
+/** A manual choice for one paragraph (or dialogue turn), replacing detection and routing. */
+export interface SegmentOverride {
+  language?: string;
+  voiceId?: string;
+}
+
+export interface DialogueLine {
+  lineNumber: number;
+  speaker: string;
+  text: string;
+}
+
+export interface AudioSegment {
+  speaker: string;
+  voiceId: string;
+  lineNumber: number;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export interface WordTiming {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+  // Position in the source text (GenerationMeta.text); unset when the word couldn't be located
+  charStart?: number;
+  charEnd?: number;
+}
+
+export interface SentenceTiming {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+  speaker?: string;    // Dialogue mode
+  lineNumber?: number;
+  words: WordTiming[];
+}
+
+/** Estimated from the audio's pauses and energy, not from the model; accurate to roughly a word. */
+export interface TimingTrack {
+  sentences: SentenceTiming[];
+}
+
+export interface SubtitleSettings {
+  maxLineChars: number;
+  maxLines: number;
+}
+
+export type InputMode = 'single' | 'dialogue' | 'batch';
+
+export interface ChunkJob {
+  index: number;
+  text: string;
+  status: TTSStatus;
+  attempts: number;
+  voiceId?: string;    // Overrides the pipeline voice (dialogue turns)
+  speaker?: string;
+  lineNumber?: number;
+  style?: SpeechStyle;
+  pauseBeforeMs?: number; // Replaces the usual inter-chunk gap (from [pause] markup)
+  pauseAfterMs?: number;  // Trailing silence; only set on the last job
+  language?: string;
+  audio?: GeneratedAudio;
+  error?: string;
+  errorCode?: TTSErrorCode;
+}
+
+export interface BatchItem {
+  id: string;
+  sourceLine: number; // Line (or CSV row) the item was imported from
+  text: string;
+  voiceId: string;
+  status: TTSStatus;
+  audio?: GeneratedAudio;
+  error?: string;
+}
+
+export type SpeechPace = 'x-slow' | 'slow' | 'normal' | 'fast' | 'x-fast';
+
+/** How a piece of text should be read. Providers turn this into model instructions. */
+export interface SpeechStyle {
+  tone?: string;       // Free-form direction, e.g. "cheerful" or "whisper"
+  pace?: SpeechPace;
+  emphasis?: string[]; // Words or phrases to stress
+}
+
+/** The delivery panel's settings, applied to a whole generation. */
+export interface DeliverySettings {
+  tone: string;
+  pace: SpeechPace;
+}
+
+export interface DeliveryPreset {
+  id: string;
+  name: string;
+  voiceId?: string; // Unset for the built-in presets, which apply to every voice
+  delivery: DeliverySettings;
+}
+
+export interface LexiconEntry {
+  term: string;
+  replacement: string; // Respelling sent to the model instead of the term
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface Lexicon {
+  id: string;
+  name: string;
+  entries: LexiconEntry[];
+  updatedAt: number;
+}
+
+export type TTSProviderId = 'gemini' | 'local';
+
+/** A speech backend. `generateSpeech` dispatches to whichever provider is active. */
+export interface TTSProvider {
+  id: TTSProviderId;
+  name: string;
+  /** Model id, used to pick rate limits. */
+  model: string;
+  /** Requests spend API quota (false for offline providers). */
+  metered: boolean;
+  /** Prebuilt voice ids this provider can synthesize; an alias is supported when its base voice is. */
+  supportedVoiceIds: string[];
+  /** `apiKey` is the key to bill; only metered providers use it. `signal` stops waiting for the response. */
+  synthesize: (text: string, voice: VoiceOption, style?: SpeechStyle, apiKey?: string, signal?: AbortSignal) => Promise<GeneratedAudio>;
+}
+
+export interface ApiKeyEntry {
+  id: string;   // Fingerprint of the key; usage and limits are stored under it
+  name: string;
+  key: string;
+  fromEnvironment?: boolean; // Set in .env.local or injected by AI Studio; can't be removed
+}
+
+/** List prices in USD, for cost estimates only. */
+export interface ModelPricing {
+  inputPerMillionTokens: number;  // Text sent
+  outputPerMillionTokens: number; // Audio returned
+}
+
+export interface RateLimits {
+  rpm: number; // Requests per minute (sliding window)
+  rpd: number; // Requests per day (resets at the provider's boundary)
+}
+
+export type ExportFormat = 'wav' | 'mp3' | 'ogg' | 'flac';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  sampleRate: number;  // Ignored for OGG/Opus, which is always 48 kHz
+  bitrateKbps: number; // MP3 and OGG/Opus only
+}
+
+/** Metadata written as ID3 (MP3) or Vorbis comments (OGG, FLAC). */
+export interface AudioTags {
+  title: string;
+  artist: string; // The voice
+  date: string;   // ISO 8601
+}
+
+// Injected by the AI Studio host page (aistudio) and the lamejs script tag in index.html
+declare global {
+  interface Window {
+    aistudio?: {
+      openSelectKey: () => Promise<void>;
+      hasSelectedApiKey?: () => Promise<boolean>;
+    };
+    lamejs?: {
+      Mp3Encoder: new (channels: number, sampleRate: number, kbps: number) => {
+        encodeBuffer: (samples: Int16Array) => Int8Array;
+        flush: () => Int8Array;
+      };
+    };
+  }
 }
@@ -0,0 +1,146 @@
+import { GeneratedAudio } from '../types';
+
+// Gemini TTS returns raw 16-bit little-endian mono PCM at 24kHz
+export const PCM_SAMPLE_RATE = 24000;
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encodeBase64(bytes: Uint8Array): string {
+  // Build the binary string in slices so large buffers don't blow the call stack
+  let binary = '';
+  const sliceSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += sliceSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + sliceSize));
+  }
+  return btoa(binary);
+}
+
+export function base64ToPcm(base64: string): Int16Array {
+  const bytes = decodeBase64(base64);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pcm = new Int16Array(bytes.byteLength >> 1);
+  for (let i = 0; i < pcm.length; i++) {
+    pcm[i] = view.getInt16(i * 2, true);
+  }
+  return pcm;
+}
+
+export function pcmToBase64(pcm: Int16Array): string {
+  const bytes = new Uint8Array(pcm.length * 2);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < pcm.length; i++) {
+    view.setInt16(i * 2, pcm[i], true);
+  }
+  return encodeBase64(bytes);
+}
+
+export function createSilence(durationMs: number, sampleRate: number = PCM_SAMPLE_RATE): Int16Array {
+  return new Int16Array(Math.round((durationMs / 1000) * sampleRate));
+}
+
+/**
+ * Joins PCM buffers end to end with silence in between. `gapMs` is either
+ * one gap for between consecutive parts (never before the first or after
+ * the last), or a list with the silence before each part plus a final entry
+ * for after the last one.
+ */
+export function concatPcm(parts: Int16Array[], gapMs: number | number[] = 0, sampleRate: number = PCM_SAMPLE_RATE): Int16Array {
+  const silences = (Array.isArray(gapMs) ? gapMs : [0, ...parts.slice(1).map(() => gapMs), 0])
+    .map(ms => createSilence(ms, sampleRate));
+  const total = [...parts, ...silences].reduce((sum, part) => sum + part.length, 0);
+  const out = new Int16Array(total);
+
+  let offset = 0;
+  parts.forEach((part, i) => {
+    out.set(silences[i], offset);
+    offset += silences[i].length;
+    out.set(part, offset);
+    offset += part.length;
+  });
+  if (silences[parts.length]) out.set(silences[parts.length], offset);
+  return out;
+}
+
+export function createWavBytes(pcm: Int16Array, sampleRate: number = PCM_SAMPLE_RATE): Uint8Array {
+  const dataSize = pcm.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  // RIFF header
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+
+  // fmt chunk: PCM, mono, 16-bit
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+
+  // data chunk
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  for (let i = 0; i < pcm.length; i++) {
+    view.setInt16(44 + i * 2, pcm[i], true);
+  }
+
+  return new Uint8Array(buffer);
+}
+
+export function createWavBlob(pcm: Int16Array, sampleRate: number = PCM_SAMPLE_RATE): Blob {
+  return new Blob([createWavBytes(pcm, sampleRate)], { type: 'audio/wav' });
+}
+
+/** An object URL for the audio as WAV, for playing or downloading it. The caller revokes it. */
+export function createWavUrl(audio: Pick<GeneratedAudio, 'base64Audio' | 'sampleRate'>): string {
+  return URL.createObjectURL(createWavBlob(base64ToPcm(audio.base64Audio), audio.sampleRate));
+}
+
+export function pcmToGeneratedAudio(pcm: Int16Array, sampleRate: number = PCM_SAMPLE_RATE): GeneratedAudio {
+  return {
+    base64Audio: pcmToBase64(pcm),
+    sampleRate,
+    durationSeconds: pcm.length / sampleRate,
+  };
+}
+
+/** Reads 16-bit mono PCM back out of a WAV file produced by `createWavBytes`. */
+export function parseWav(bytes: Uint8Array): { pcm: Int16Array; sampleRate: number } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readTag = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+    throw new Error('Not a WAV file.');
+  }
+
+  let sampleRate = PCM_SAMPLE_RATE;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    if (tag === 'fmt ') {
+      sampleRate = view.getUint32(offset + 12, true);
+    } else if (tag === 'data') {
+      const end = Math.min(bytes.length, offset + 8 + size);
+      const pcm = new Int16Array((end - offset - 8) >> 1);
+      for (let i = 0; i < pcm.length; i++) pcm[i] = view.getInt16(offset + 8 + i * 2, true);
+      return { pcm, sampleRate };
+    }
+    offset += 8 + size + (size & 1);
+  }
+  throw new Error('WAV file has no audio data.');
+}
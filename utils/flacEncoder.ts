@@ -0,0 +1,265 @@
+import { AudioTags } from '../types';
+import { createVorbisComment } from './vorbisComment';
+
+/**
+ * FLAC encoder for 16-bit mono PCM.
+ *
+ * Each block is coded as a constant (silence) or with the best of the
+ * fixed predictors (orders 0–4), with partitioned Rice-coded residuals.
+ * That gets most of what libFLAC achieves on speech without LPC analysis.
+ * The STREAMINFO MD5 is left as zero, which the spec defines as "unknown".
+ */
+
+const BLOCK_SIZE = 4096;
+const MAX_RICE_PARAM = 14; // 15 is the escape code in 4-bit Rice parameters
+const MAX_PARTITION_ORDER = 6;
+const SAMPLE_RATE_CODES: Record<number, number> = { 16000: 0b0101, 22050: 0b0110, 24000: 0b0111, 44100: 0b1001, 48000: 0b1010 };
+
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private bits = 0;
+
+  private pushByte(byte: number) {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+
+  /** Writes the low `count` bits of a non-negative `value`, most significant first. */
+  write(value: number, count: number) {
+    // Keep the accumulator within 31 bits: at most 7 pending plus 24 new
+    if (count > 24) {
+      this.write(Math.floor(value / 2 ** 24), count - 24);
+      value %= 2 ** 24;
+      count = 24;
+    }
+    this.acc = (this.acc << count) | (value & ((1 << count) - 1));
+    this.bits += count;
+    while (this.bits >= 8) {
+      this.bits -= 8;
+      this.pushByte((this.acc >>> this.bits) & 0xff);
+    }
+    this.acc &= (1 << this.bits) - 1;
+  }
+
+  writeSigned(value: number, count: number) {
+    this.write(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  writeUnary(zeros: number) {
+    for (; zeros >= 24; zeros -= 24) this.write(0, 24);
+    this.write(1, zeros + 1);
+  }
+
+  alignToByte() {
+    if (this.bits > 0) this.write(0, 8 - this.bits);
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  /** Bytes written so far; only whole bytes, so align first. */
+  toBytes(from = 0): Uint8Array {
+    return this.bytes.slice(from, this.length);
+  }
+}
+
+function crc8(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+// Frame numbers use the same variable-length scheme as UTF-8, extended to 36 bits
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  let continuation = 1;
+  while (value >= 2 ** (6 * continuation + (6 - continuation))) continuation++;
+  const lead = (0xff << (7 - continuation)) & 0xff;
+  writer.write(lead | Math.floor(value / 2 ** (6 * continuation)), 8);
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+function fixedResiduals(samples: Int16Array, order: number): Int32Array {
+  const residuals = new Int32Array(samples.length - order);
+  for (let n = order; n < samples.length; n++) {
+    const s = samples;
+    let predicted = 0;
+    switch (order) {
+      case 1: predicted = s[n - 1]; break;
+      case 2: predicted = 2 * s[n - 1] - s[n - 2]; break;
+      case 3: predicted = 3 * s[n - 1] - 3 * s[n - 2] + s[n - 3]; break;
+      case 4: predicted = 4 * s[n - 1] - 6 * s[n - 2] + 4 * s[n - 3] - s[n - 4]; break;
+    }
+    residuals[n - order] = s[n] - predicted;
+  }
+  return residuals;
+}
+
+// Zigzag-folds signed residuals into the unsigned values Rice coding expects
+const fold = (r: number) => (r >= 0 ? r * 2 : -r * 2 - 1);
+
+interface RicePlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+function bestRiceParam(folded: Uint32Array, start: number, end: number): { param: number; bits: number } {
+  // The optimum sits near log2 of the mean, so only its neighbours need an exact count
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += folded[i];
+  const estimate = Math.floor(Math.log2(Math.max(1, sum / Math.max(1, end - start))));
+  let best = { param: 0, bits: Infinity };
+  for (let param = Math.max(0, estimate - 1); param <= Math.min(MAX_RICE_PARAM, estimate + 1); param++) {
+    let bits = (end - start) * (param + 1);
+    for (let i = start; i < end; i++) bits += folded[i] >>> param;
+    if (bits < best.bits) best = { param, bits };
+  }
+  return best;
+}
+
+function planRice(folded: Uint32Array, blockSize: number, order: number): RicePlan {
+  let best: RicePlan | null = null;
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitions = 2 ** partitionOrder;
+    if (blockSize % partitions !== 0 || blockSize / partitions <= order) break;
+    const size = blockSize / partitions;
+
+    const params: number[] = [];
+    let bits = 0;
+    for (let p = 0; p < partitions; p++) {
+      // The first partition holds the residuals after the warm-up samples
+      const start = p === 0 ? 0 : p * size - order;
+      const end = (p + 1) * size - order;
+      const choice = bestRiceParam(folded, start, end);
+      params.push(choice.param);
+      bits += 4 + choice.bits;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder, params, bits };
+  }
+  return best!;
+}
+
+function writeSubframe(writer: BitWriter, samples: Int16Array) {
+  if (samples.every(s => s === samples[0])) {
+    writer.write(0, 1);
+    writer.write(0b000000, 6); // CONSTANT
+    writer.write(0, 1);
+    writer.writeSigned(samples[0], 16);
+    return;
+  }
+
+  // Pick the predictor with the smallest residual energy, then plan its Rice partitions
+  let order = 0;
+  let residuals = fixedResiduals(samples, 0);
+  let bestSum = Infinity;
+  for (let candidate = 0; candidate <= Math.min(4, samples.length - 1); candidate++) {
+    const r = fixedResiduals(samples, candidate);
+    let sum = 0;
+    for (let i = 0; i < r.length; i++) sum += Math.abs(r[i]);
+    if (sum < bestSum) {
+      bestSum = sum;
+      order = candidate;
+      residuals = r;
+    }
+  }
+
+  const folded = Uint32Array.from(residuals, fold);
+  const plan = planRice(folded, samples.length, order);
+
+  writer.write(0, 1);
+  writer.write(0b001000 | order, 6); // FIXED, order in the low bits
+  writer.write(0, 1);
+  for (let i = 0; i < order; i++) writer.writeSigned(samples[i], 16);
+
+  writer.write(0b00, 2); // Rice coding with 4-bit parameters
+  writer.write(plan.partitionOrder, 4);
+  const size = samples.length / 2 ** plan.partitionOrder;
+  plan.params.forEach((param, p) => {
+    writer.write(param, 4);
+    const start = p === 0 ? 0 : p * size - order;
+    const end = (p + 1) * size - order;
+    for (let i = start; i < end; i++) {
+      writer.writeUnary(folded[i] >>> param);
+      if (param > 0) writer.write(folded[i] & ((1 << param) - 1), param);
+    }
+  });
+}
+
+function writeFrame(writer: BitWriter, samples: Int16Array, sampleRate: number, frameNumber: number) {
+  const start = writer.byteLength;
+
+  writer.write(0b11111111111110, 14); // Sync code
+  writer.write(0, 1);                 // Reserved
+  writer.write(0, 1);                 // Fixed block size stream
+  // Common values have codes of their own; anything else is written out after the frame number
+  const blockSizeCode = samples.length === BLOCK_SIZE ? 0b1100 : 0b0111;
+  writer.write(blockSizeCode, 4);
+  writer.write(SAMPLE_RATE_CODES[sampleRate] ?? 0b0000, 4); // 0000: take it from STREAMINFO
+  writer.write(0b0000, 4);            // Mono
+  writer.write(0b100, 3);             // 16 bits per sample
+  writer.write(0, 1);
+  writeUtf8Number(writer, frameNumber);
+  if (blockSizeCode === 0b0111) writer.write(samples.length - 1, 16);
+  writer.write(crc8(writer.toBytes(start)), 8);
+
+  writeSubframe(writer, samples);
+  writer.alignToByte();
+  writer.write(crc16(writer.toBytes(start)), 16);
+}
+
+function writeMetadataHeader(writer: BitWriter, type: number, length: number, isLast: boolean) {
+  writer.write(isLast ? 1 : 0, 1);
+  writer.write(type, 7);
+  writer.write(length, 24);
+}
+
+export function encodeFlac(pcm: Int16Array, sampleRate: number, tags: AudioTags): Uint8Array {
+  const writer = new BitWriter();
+  for (const c of 'fLaC') writer.write(c.charCodeAt(0), 8);
+
+  // STREAMINFO
+  writeMetadataHeader(writer, 0, 34, false);
+  writer.write(BLOCK_SIZE, 16); // Min block size (the final block may be shorter, which the spec allows)
+  writer.write(BLOCK_SIZE, 16); // Max block size
+  writer.write(0, 24);          // Min frame size: unknown
+  writer.write(0, 24);          // Max frame size: unknown
+  writer.write(sampleRate, 20);
+  writer.write(0, 3);           // Channels - 1
+  writer.write(15, 5);          // Bits per sample - 1
+  writer.write(pcm.length, 36);
+  for (let i = 0; i < 16; i++) writer.write(0, 8); // MD5: unknown
+
+  const comment = createVorbisComment(tags);
+  writeMetadataHeader(writer, 4, comment.length, true);
+  comment.forEach(byte => writer.write(byte, 8));
+
+  for (let offset = 0, frame = 0; offset < pcm.length; offset += BLOCK_SIZE, frame++) {
+    writeFrame(writer, pcm.subarray(offset, offset + BLOCK_SIZE), sampleRate, frame);
+  }
+  return writer.toBytes();
+}
@@ -0,0 +1,127 @@
+/**
+ * Integrated loudness per ITU-R BS.1770-4 / EBU R128, and a peak limiter.
+ *
+ * Samples are floats on the 16-bit scale (±32768), mono. Loudness is
+ * measured through the K-weighting filter (a high shelf plus a high-pass)
+ * over 400 ms blocks with 75% overlap, gated at −70 LUFS absolute and
+ * 10 LU below the ungated level.
+ */
+
+const BLOCK_SECONDS = 0.4;
+const BLOCK_STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+type Biquad = { b: [number, number, number]; a: [number, number] };
+
+// Coefficients for any sample rate, derived as in libebur128 (the spec only lists 48 kHz)
+function kWeightingFilters(sampleRate: number): Biquad[] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b: [(Vh + (Vb * K) / Q + K * K) / a0, (2 * (K * K - Vh)) / a0, (Vh - (Vb * K) / Q + K * K) / a0],
+    a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [(2 * (K * K - 1)) / a0, (1 - K / Q + K * K) / a0],
+  };
+  return [shelf, highPass];
+}
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+/**
+ * Integrated loudness in LUFS; -Infinity for silence. One streaming pass:
+ * only the energy of each 100 ms step is kept, and every 400 ms block is
+ * the sum of four of them.
+ */
+export function measureLoudness(samples: Float32Array, sampleRate: number): number {
+  const [{ b: [sb0, sb1, sb2], a: [sa1, sa2] }, { b: [hb0, hb1, hb2], a: [ha1, ha2] }] = kWeightingFilters(sampleRate);
+  const step = Math.round(BLOCK_STEP_SECONDS * sampleRate);
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / BLOCK_STEP_SECONDS);
+
+  // Both biquads run inline (direct form I); this loop is the hot path for long renders
+  let sx1 = 0, sx2 = 0, sy1 = 0, sy2 = 0;
+  let hy1 = 0, hy2 = 0;
+  const stepEnergies: number[] = [];
+  let energy = 0;
+  let inStep = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i] / 32768;
+    const shelved = sb0 * x + sb1 * sx1 + sb2 * sx2 - sa1 * sy1 - sa2 * sy2;
+    sx2 = sx1;
+    sx1 = x;
+    // The high-pass's input is the shelf's output, so its input history is the shelf's output history
+    const weighted = hb0 * shelved + hb1 * sy1 + hb2 * sy2 - ha1 * hy1 - ha2 * hy2;
+    sy2 = sy1;
+    sy1 = shelved;
+    hy2 = hy1;
+    hy1 = weighted;
+
+    energy += weighted * weighted;
+    if (++inStep === step) {
+      stepEnergies.push(energy);
+      energy = 0;
+      inStep = 0;
+    }
+  }
+
+  const powers: number[] = [];
+  if (stepEnergies.length < stepsPerBlock) {
+    // Clips shorter than one block are measured as a single block
+    const total = stepEnergies.reduce((sum, e) => sum + e, energy);
+    powers.push(samples.length > 0 ? total / samples.length : 0);
+  } else {
+    const blockSize = stepsPerBlock * step;
+    let blockEnergy = 0;
+    for (let i = 0; i < stepEnergies.length; i++) {
+      blockEnergy += stepEnergies[i];
+      if (i >= stepsPerBlock) blockEnergy -= stepEnergies[i - stepsPerBlock];
+      if (i >= stepsPerBlock - 1) powers.push(blockEnergy / blockSize);
+    }
+  }
+
+  const gated = (threshold: number) => powers.filter(p => p > 0 && toLufs(p) > threshold);
+  const aboveAbsolute = gated(ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) return -Infinity;
+  const ungated = toLufs(aboveAbsolute.reduce((sum, p) => sum + p, 0) / aboveAbsolute.length);
+  const aboveRelative = gated(Math.max(ABSOLUTE_GATE_LUFS, ungated + RELATIVE_GATE_LU));
+  return toLufs(aboveRelative.reduce((sum, p) => sum + p, 0) / aboveRelative.length);
+}
+
+export const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+const LIMITER_ATTACK_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.15;
+
+/**
+ * Applies `gainDb`, then pulls any sample above `ceilingDb` (dBFS) down to it.
+ * The gain reduction ramps in over 5 ms ahead of each peak and recovers over
+ * 150 ms, so limiting doesn't click. Only sample peaks are limited; a
+ * ceiling of −1 dB leaves room for most inter-sample overs.
+ */
+export function applyGainWithLimiter(samples: Float32Array, gainDb: number, ceilingDb: number, sampleRate: number): Float32Array {
+  const gain = dbToGain(gainDb);
+  const ceiling = 32767 * dbToGain(ceilingDb);
+  const reduction = new Float32Array(samples.length).fill(1);
+  for (let i = 0; i < samples.length; i++) {
+    const peak = Math.abs(samples[i] * gain);
+    if (peak > ceiling) reduction[i] = ceiling / peak;
+  }
+
+  // Backwards: reach each dip linearly over the attack; forwards: recover linearly over the release
+  const attackStep = 1 / Math.max(1, Math.round(LIMITER_ATTACK_SECONDS * sampleRate));
+  const releaseStep = 1 / Math.max(1, Math.round(LIMITER_RELEASE_SECONDS * sampleRate));
+  for (let i = samples.length - 2; i >= 0; i--) reduction[i] = Math.min(reduction[i], reduction[i + 1] + attackStep);
+  for (let i = 1; i < samples.length; i++) reduction[i] = Math.min(reduction[i], reduction[i - 1] + releaseStep);
+
+  return samples.map((s, i) => s * gain * reduction[i]);
+}
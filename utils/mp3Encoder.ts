@@ -0,0 +1,59 @@
+import { AudioTags } from '../types';
+
+/**
+ * MP3 encoding through lamejs (loaded globally by index.html), with an
+ * ID3v2.4 tag prepended for title, artist and recording date.
+ */
+
+const FRAME_SAMPLES = 1152;
+
+// ID3 sizes are "syncsafe": 7 bits per byte so the tag can never contain a false MPEG sync
+function syncsafe(size: number): number[] {
+  return [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f];
+}
+
+function textFrame(id: string, value: string): Uint8Array {
+  const text = new TextEncoder().encode(value);
+  const frame = new Uint8Array(10 + 1 + text.length);
+  frame.set(Array.from(id, c => c.charCodeAt(0)), 0);
+  frame.set(syncsafe(1 + text.length), 4);
+  // Bytes 8-9: no flags
+  frame[10] = 3; // UTF-8
+  frame.set(text, 11);
+  return frame;
+}
+
+export function createId3Tag(tags: AudioTags): Uint8Array {
+  const frames = [
+    textFrame('TIT2', tags.title),
+    textFrame('TPE1', tags.artist),
+    // TDRC takes yyyy-MM-ddTHH:mm:ss; drop milliseconds and the zone designator
+    textFrame('TDRC', tags.date.slice(0, 19)),
+  ];
+  const size = frames.reduce((sum, frame) => sum + frame.length, 0);
+  const tag = new Uint8Array(10 + size);
+  tag.set([0x49, 0x44, 0x33, 4, 0, 0, ...syncsafe(size)], 0); // "ID3" v2.4.0, no flags
+  let offset = 10;
+  for (const frame of frames) {
+    tag.set(frame, offset);
+    offset += frame.length;
+  }
+  return tag;
+}
+
+export function encodeMp3(pcm: Int16Array, sampleRate: number, bitrateKbps: number, tags: AudioTags): Uint8Array[] {
+  if (!window.lamejs) {
+    throw new Error('The MP3 encoder (lamejs) failed to load. Check your connection and reload the page.');
+  }
+  const encoder = new window.lamejs.Mp3Encoder(1, sampleRate, bitrateKbps);
+  const parts: Uint8Array[] = [createId3Tag(tags)];
+  const push = (data: Int8Array) => {
+    if (data.length > 0) parts.push(new Uint8Array(data.buffer, data.byteOffset, data.length));
+  };
+
+  for (let offset = 0; offset < pcm.length; offset += FRAME_SAMPLES) {
+    push(encoder.encodeBuffer(pcm.subarray(offset, offset + FRAME_SAMPLES)));
+  }
+  push(encoder.flush());
+  return parts;
+}
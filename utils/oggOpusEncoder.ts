@@ -0,0 +1,179 @@
+import { AudioTags } from '../types';
+import { createVorbisComment } from './vorbisComment';
+
+/**
+ * OGG/Opus encoding. The Opus packets come from the browser's WebCodecs
+ * AudioEncoder; this module only wraps them in an Ogg stream (RFC 7845)
+ * with OpusHead and OpusTags headers.
+ */
+
+export const OPUS_SAMPLE_RATE = 48000; // Opus always decodes at 48 kHz
+const PRE_SKIP = 312;                  // libopus encoder delay at 48 kHz
+const MAX_PAGE_BYTES = 4096;
+
+export interface OpusPacket {
+  data: Uint8Array;
+  samples: number; // At 48 kHz
+}
+
+let crcTable: Uint32Array | null = null;
+
+// Ogg uses the unreflected CRC-32 (polynomial 0x04c11db7, zero init), unlike ZIP
+function oggCrc(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n << 24;
+      for (let k = 0; k < 8; k++) c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ data[i]) & 0xff]) >>> 0;
+  return crc;
+}
+
+const HEADER_TYPE_BOS = 0x02;
+const HEADER_TYPE_EOS = 0x04;
+
+function createPage(packets: Uint8Array[], granule: number, serial: number, sequence: number, headerType: number): Uint8Array {
+  // Each packet is laced as 255-byte segments plus a final shorter one (possibly 0)
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let n = packet.length; ; n -= 255) {
+      lacing.push(Math.min(n, 255));
+      if (n < 255) break;
+    }
+  }
+
+  const bodySize = packets.reduce((sum, packet) => sum + packet.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+  page.set([0x4f, 0x67, 0x67, 0x53], 0); // "OggS"
+  page[4] = 0;                           // Version
+  page[5] = headerType;
+  view.setUint32(6, granule % 2 ** 32, true);
+  view.setUint32(10, Math.floor(granule / 2 ** 32), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  // Bytes 22-25: CRC, computed over the page with this field zeroed
+  page[26] = lacing.length;
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, oggCrc(page), true);
+  return page;
+}
+
+function createOpusHead(inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1;  // Version
+  head[9] = 1;  // Channels
+  view.setUint16(10, PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true); // Informational only
+  view.setInt16(16, 0, true);                // Output gain
+  head[18] = 0; // Channel mapping family: mono/stereo
+  return head;
+}
+
+function createOpusTags(tags: AudioTags): Uint8Array {
+  const comment = createVorbisComment(tags);
+  const packet = new Uint8Array(8 + comment.length);
+  packet.set(new TextEncoder().encode('OpusTags'), 0);
+  packet.set(comment, 8);
+  return packet;
+}
+
+/** Wraps encoded packets in an Ogg stream. `totalSamples` (48 kHz) trims the encoder's padding at the end. */
+export function muxOggOpus(packets: OpusPacket[], totalSamples: number, tags: AudioTags, inputSampleRate: number): Uint8Array[] {
+  const serial = Math.floor(Math.random() * 2 ** 32);
+  const pages: Uint8Array[] = [
+    createPage([createOpusHead(inputSampleRate)], 0, serial, 0, HEADER_TYPE_BOS),
+    createPage([createOpusTags(tags)], 0, serial, 1, 0),
+  ];
+
+  let pending: Uint8Array[] = [];
+  let pendingBytes = 0;
+  let segments = 0;
+  let granule = PRE_SKIP;
+  const endGranule = PRE_SKIP + totalSamples;
+
+  const flush = (isLast: boolean) => {
+    pages.push(createPage(pending, isLast ? endGranule : granule, serial, pages.length, isLast ? HEADER_TYPE_EOS : 0));
+    pending = [];
+    pendingBytes = 0;
+    segments = 0;
+  };
+
+  for (const packet of packets) {
+    const packetSegments = Math.floor(packet.data.length / 255) + 1;
+    if (pending.length > 0 && (segments + packetSegments > 255 || pendingBytes + packet.data.length > MAX_PAGE_BYTES)) {
+      flush(false);
+    }
+    pending.push(packet.data);
+    pendingBytes += packet.data.length;
+    segments += packetSegments;
+    granule += packet.samples;
+  }
+  flush(true);
+  return pages;
+}
+
+function createOpusConfig(bitrateKbps: number): AudioEncoderConfig {
+  return { codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: 1, bitrate: bitrateKbps * 1000 };
+}
+
+export async function isOpusEncodingSupported(bitrateKbps: number): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    return (await AudioEncoder.isConfigSupported(createOpusConfig(bitrateKbps))).supported === true;
+  } catch {
+    return false;
+  }
+}
+
+/** Encodes 48 kHz PCM. `inputSampleRate` is recorded in the header as the original rate. */
+export async function encodeOggOpus(pcm: Int16Array, bitrateKbps: number, tags: AudioTags, inputSampleRate: number): Promise<Uint8Array[]> {
+  if (!(await isOpusEncodingSupported(bitrateKbps))) {
+    throw new Error('This browser cannot encode Opus. Use Chrome, Edge or Safari 26+, or export as MP3 or FLAC.');
+  }
+
+  const packets: OpusPacket[] = [];
+  let failure: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20_000) * OPUS_SAMPLE_RATE) / 1_000_000) });
+    },
+    error: (err) => {
+      failure = err;
+    },
+  });
+  encoder.configure(createOpusConfig(bitrateKbps));
+
+  // Feed one second at a time; the encoder re-frames into 20 ms packets itself
+  for (let offset = 0; offset < pcm.length; offset += OPUS_SAMPLE_RATE) {
+    const frames = pcm.subarray(offset, offset + OPUS_SAMPLE_RATE);
+    const data = new AudioData({
+      format: 's16',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfChannels: 1,
+      numberOfFrames: frames.length,
+      timestamp: Math.round((offset * 1_000_000) / OPUS_SAMPLE_RATE),
+      data: frames,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  return muxOggOpus(packets, pcm.length, tags, inputSampleRate);
+}
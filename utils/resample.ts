@@ -0,0 +1,59 @@
+/**
+ * Band-limited resampling of 16-bit mono PCM using a Lanczos-windowed sinc.
+ *
+ * Rates are reduced to a ratio up/down, so the kernel only needs one set of
+ * weights per output phase (147 phases for 24 kHz → 44.1 kHz). When
+ * downsampling, the kernel is widened so it also works as the anti-alias
+ * filter.
+ */
+
+const LOBES = 8;
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (Math.abs(x) >= LOBES) return 0;
+  const px = Math.PI * x;
+  return (LOBES * Math.sin(px) * Math.sin(px / LOBES)) / (px * px);
+}
+
+export function resamplePcm(input: Int16Array, fromRate: number, toRate: number): Int16Array {
+  if (fromRate === toRate || input.length === 0) return input.slice();
+
+  const divisor = gcd(fromRate, toRate);
+  const up = toRate / divisor;
+  const down = fromRate / divisor;
+  const scale = Math.min(1, up / down);
+  const half = Math.ceil(LOBES / scale);
+  const taps = half * 2;
+
+  // weights[phase * taps + k] applies to input sample (base - half + 1 + k)
+  const weights = new Float32Array(up * taps);
+  for (let phase = 0; phase < up; phase++) {
+    const frac = phase / up;
+    let total = 0;
+    for (let k = 0; k < taps; k++) {
+      const w = lanczos((k - half + 1 - frac) * scale);
+      weights[phase * taps + k] = w;
+      total += w;
+    }
+    for (let k = 0; k < taps; k++) weights[phase * taps + k] /= total;
+  }
+
+  const output = new Int16Array(Math.round((input.length * up) / down));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * down;
+    const base = Math.floor(position / up);
+    const row = (position % up) * taps;
+    let sum = 0;
+    for (let k = 0; k < taps; k++) {
+      const j = base - half + 1 + k;
+      if (j >= 0 && j < input.length) sum += input[j] * weights[row + k];
+    }
+    output[i] = Math.max(-32768, Math.min(32767, Math.round(sum)));
+  }
+  return output;
+}
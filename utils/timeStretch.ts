@@ -0,0 +1,74 @@
+import { PCM_SAMPLE_RATE } from './audioUtils';
+
+/**
+ * Pitch-preserving time-stretch using WSOLA (waveform-similarity overlap-add).
+ *
+ * `factor` is output length / input length: 1.1 makes the audio 10% longer
+ * (slower speech), 0.9 makes it 10% shorter. Speech stays natural within
+ * roughly 0.75–1.33; beyond that artifacts become audible.
+ */
+export function timeStretch(input: Int16Array, factor: number, sampleRate: number = PCM_SAMPLE_RATE): Int16Array {
+  if (input.length === 0 || Math.abs(factor - 1) < 0.001) return input.slice();
+
+  const frameSize = Math.round(0.04 * sampleRate);
+  const synthesisHop = frameSize >> 1;
+  const analysisHop = synthesisHop / factor;
+  const tolerance = Math.round(0.008 * sampleRate);
+  // Correlation is evaluated on a decimated grid; plenty for voiced speech and ~8x cheaper
+  const corrStep = 4;
+  const deltaStep = 2;
+
+  const source = new Float32Array(input.length + frameSize + tolerance * 2);
+  for (let i = 0; i < input.length; i++) source[i] = input[i];
+
+  const outputLength = Math.round(input.length * factor);
+  const output = new Float32Array(outputLength + frameSize);
+  const weights = new Float32Array(outputLength + frameSize);
+
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+  }
+
+  let previous = 0;
+  for (let k = 0; k * synthesisHop < outputLength; k++) {
+    let position = 0;
+
+    if (k > 0) {
+      // Pick the frame near the nominal position that best continues the previous one
+      const natural = previous + synthesisHop;
+      const nominal = Math.round(k * analysisHop);
+      let bestScore = -Infinity;
+      position = nominal;
+      // Near the end there's no full hop left to continue from, so the nominal frame is used
+      if (natural + synthesisHop < source.length) {
+        for (let delta = -tolerance; delta <= tolerance; delta += deltaStep) {
+          const candidate = nominal + delta;
+          if (candidate < 0 || candidate + synthesisHop >= source.length) continue;
+          let score = 0;
+          for (let i = 0; i < synthesisHop; i += corrStep) {
+            score += source[natural + i] * source[candidate + i];
+          }
+          if (score > bestScore) {
+            bestScore = score;
+            position = candidate;
+          }
+        }
+      }
+    }
+
+    const outOffset = k * synthesisHop;
+    for (let i = 0; i < frameSize && position + i < source.length; i++) {
+      output[outOffset + i] += source[position + i] * window[i];
+      weights[outOffset + i] += window[i];
+    }
+    previous = position;
+  }
+
+  const result = new Int16Array(outputLength);
+  for (let i = 0; i < outputLength; i++) {
+    const value = weights[i] > 1e-3 ? output[i] / weights[i] : output[i];
+    result[i] = Math.max(-32768, Math.min(32767, Math.round(value)));
+  }
+  return result;
+}
@@ -0,0 +1,28 @@
+import { AudioTags } from '../types';
+
+const VENDOR = 'Gemini TTS Studio';
+
+/**
+ * A Vorbis comment block (vendor string plus FIELD=value pairs, with
+ * little-endian lengths), as embedded by FLAC and by the OpusTags header.
+ */
+export function createVorbisComment(tags: AudioTags): Uint8Array {
+  const encoder = new TextEncoder();
+  const fields = [`TITLE=${tags.title}`, `ARTIST=${tags.artist}`, `DATE=${tags.date}`].map(field => encoder.encode(field));
+  const vendor = encoder.encode(VENDOR);
+
+  const bytes = new Uint8Array(4 + vendor.length + 4 + fields.reduce((sum, field) => sum + 4 + field.length, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const write = (data: Uint8Array) => {
+    view.setUint32(offset, data.length, true);
+    bytes.set(data, offset + 4);
+    offset += 4 + data.length;
+  };
+
+  write(vendor);
+  view.setUint32(offset, fields.length, true);
+  offset += 4;
+  fields.forEach(write);
+  return bytes;
+}